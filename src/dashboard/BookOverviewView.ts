@@ -0,0 +1,146 @@
+import { debounce, ItemView, Setting, TFile, WorkspaceLeaf } from "obsidian";
+import KoboHighlightPickerAndInboxer from "src/main";
+import { BookOverview, bookOverview, OverviewSortKey, sortOverviews } from "./bookOverview";
+
+export const BOOK_OVERVIEW_VIEW_TYPE = "kobo-book-overview";
+
+const COLUMNS: { key: OverviewSortKey; label: string }[] = [
+	{ key: "title", label: "Book" },
+	{ key: "highlights", label: "Highlights" },
+	{ key: "insights", label: "Insights" },
+	{ key: "pendingMemos", label: "Open memos" },
+	{ key: "lastSync", label: "Last sync" },
+	{ key: "readStatus", label: "Status" },
+	{ key: "percentRead", label: "Read" },
+];
+
+/**
+ * Every inbox note with its progress, to see which books still need
+ * processing. Click a header to sort, a row to open the note.
+ */
+export class BookOverviewView extends ItemView {
+	private plugin: KoboHighlightPickerAndInboxer;
+	private rows: BookOverview[] = [];
+	private sortKey: OverviewSortKey = "pendingMemos";
+	private descending = true;
+
+	private requestRefresh = debounce(
+		() => {
+			void this.refresh().catch(console.error);
+		},
+		500,
+		true,
+	);
+
+	constructor(leaf: WorkspaceLeaf, plugin: KoboHighlightPickerAndInboxer) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return BOOK_OVERVIEW_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Kobo book overview";
+	}
+
+	getIcon(): string {
+		return "inbox";
+	}
+
+	async onOpen() {
+		const refreshOnChange = (file: unknown, oldPath?: string) => {
+			if (
+				(file instanceof TFile && this.plugin.isInboxNote(file.path)) ||
+				(oldPath !== undefined && this.plugin.isInboxNote(oldPath))
+			) {
+				this.requestRefresh();
+			}
+		};
+		this.registerEvent(this.app.metadataCache.on("changed", (file) => refreshOnChange(file)));
+		this.registerEvent(this.app.vault.on("delete", (file) => refreshOnChange(file)));
+		this.registerEvent(this.app.vault.on("rename", refreshOnChange));
+
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	async refresh(): Promise<void> {
+		const files = this.plugin.inboxNotes();
+
+		this.rows = await Promise.all(
+			files.map(async (f) =>
+				bookOverview(
+					f.path,
+					await this.app.vault.cachedRead(f),
+					this.app.metadataCache.getFileCache(f)?.frontmatter,
+				),
+			),
+		);
+		this.render();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName("Book overview")
+			.setHeading()
+			.addExtraButton((cb) =>
+				cb
+					.setIcon("refresh-cw")
+					.setTooltip("Refresh")
+					.onClick(() => {
+						void this.refresh().catch(console.error);
+					}),
+			);
+
+		if (this.rows.length === 0) {
+			contentEl.createEl("p", {
+				text: `No inbox notes in "${this.plugin.settings.intermediateFolder}" yet.`,
+			});
+			return;
+		}
+
+		const table = contentEl.createEl("table", { cls: "kobo-overview-table" });
+		const headerRow = table.createEl("thead").createEl("tr");
+		for (const { key, label } of COLUMNS) {
+			const arrow = key === this.sortKey ? (this.descending ? " ▼" : " ▲") : "";
+			const th = headerRow.createEl("th", { text: label + arrow, cls: "kobo-overview-sortable" });
+			th.addEventListener("click", () => {
+				if (this.sortKey === key) {
+					this.descending = !this.descending;
+				} else {
+					this.sortKey = key;
+					this.descending = key !== "title";
+				}
+				this.render();
+			});
+		}
+
+		const body = table.createEl("tbody");
+		for (const row of sortOverviews(this.rows, this.sortKey, this.descending)) {
+			const tr = body.createEl("tr", { cls: "kobo-overview-row" });
+			tr.createEl("td", { text: row.title });
+			tr.createEl("td", { text: String(row.highlights) });
+			tr.createEl("td", { text: String(row.insights) });
+			tr.createEl("td", { text: String(row.pendingMemos) });
+			tr.createEl("td", { text: row.lastSync ? row.lastSync.slice(0, 10) : "—" });
+			tr.createEl("td", { text: row.readStatus ?? "—" });
+			tr.createEl("td", {
+				text: row.percentRead === undefined ? "—" : `${Math.round(row.percentRead)}%`,
+			});
+
+			tr.addEventListener("click", (evt) => {
+				void this.app.workspace
+					.openLinkText(row.path, "", evt.ctrlKey || evt.metaKey)
+					.catch(console.error);
+			});
+		}
+	}
+}
@@ -0,0 +1,85 @@
+import * as chai from "chai";
+import { BookOverview, bookOverview, pendingMemoCount, sortOverviews } from "./bookOverview";
+
+describe("bookOverview", async function () {
+	const note = [
+		"# Book",
+		"",
+		"---",
+		"> [!quote]- one",
+		"> <!-- id: a -->",
+		"> quote one",
+		"> ",
+		"",
+		"- [ ] memo:: an open thought",
+		"- [x] memo:: ready to extract",
+		"- [ ] memo:: ",
+		"---",
+		"> [!quote]- two",
+		"> <!-- id: b -->",
+		"> quote two",
+		"> ",
+		"",
+		"- ~~memo:: struck~~",
+		"- [x] memo:: done ✅ 2024-05-01",
+		"- insight:: [[kobo-insights/Done]]",
+	].join("\n");
+
+	it("counts written memos that are not processed yet", function () {
+		chai.expect(pendingMemoCount(note)).equal(2);
+		chai.expect(pendingMemoCount("")).equal(0);
+	});
+
+	it("builds a row from the body and frontmatter", function () {
+		chai.expect(
+			bookOverview("inbox/Book.md", note, {
+				sync_date: "2024-05-01T10:00:00.000Z",
+				read_status: "Reading",
+				percent_read: 42,
+			}),
+		).deep.equal({
+			path: "inbox/Book.md",
+			title: "Book",
+			highlights: 2,
+			insights: 1,
+			pendingMemos: 2,
+			lastSync: "2024-05-01T10:00:00.000Z",
+			readStatus: "Reading",
+			percentRead: 42,
+		});
+		chai.expect(bookOverview("inbox/Book.md", "", { title: "Real title" }).title).equal(
+			"Real title",
+		);
+	});
+
+	it("sorts with missing values last", function () {
+		const row = (title: string, percentRead?: number): BookOverview => ({
+			path: `${title}.md`,
+			title,
+			highlights: 0,
+			insights: 0,
+			pendingMemos: 0,
+			percentRead,
+		});
+		const rows = [row("b", 10), row("c"), row("a", 90), row("d", 10)];
+
+		chai.expect(sortOverviews(rows, "percentRead").map((r) => r.title)).deep.equal([
+			"b",
+			"d",
+			"a",
+			"c",
+		]);
+		chai.expect(sortOverviews(rows, "percentRead", true).map((r) => r.title)).deep.equal([
+			"a",
+			"b",
+			"d",
+			"c",
+		]);
+		chai.expect(sortOverviews(rows, "title", true).map((r) => r.title)).deep.equal([
+			"d",
+			"c",
+			"b",
+			"a",
+		]);
+	});
+});
@@ -0,0 +1,93 @@
+import { isProcessedMemo } from "../inbox/memo";
+import { computeInboxStats, parseInboxNote } from "../inbox/inboxNote";
+
+// One row of the book overview: an inbox note and how far along it is
+export interface BookOverview {
+	path: string;
+	title: string;
+	highlights: number;
+	insights: number;
+	// written memos that have not become an insight note yet
+	pendingMemos: number;
+	// ISO timestamp of the last sync, from `sync_date`
+	lastSync?: string;
+	readStatus?: string;
+	percentRead?: number;
+}
+
+export type OverviewSortKey =
+	| "title"
+	| "highlights"
+	| "insights"
+	| "pendingMemos"
+	| "lastSync"
+	| "readStatus"
+	| "percentRead";
+
+export function pendingMemoCount(content: string): number {
+	let count = 0;
+	for (const block of parseInboxNote(content).blocks) {
+		for (const memo of block.memos) {
+			if (memo.text.length > 0 && !memo.struck && !isProcessedMemo(memo.lines[0])) count++;
+		}
+	}
+	return count;
+}
+
+/**
+ * Build a row from the note body and its frontmatter. Counts come from the
+ * body, so the overview is right even when the `kobo_stats` cache is stale.
+ */
+export function bookOverview(
+	path: string,
+	content: string,
+	frontmatter: Record<string, unknown> = {},
+): BookOverview {
+	const stats = computeInboxStats(content);
+	const title = frontmatter.title;
+	const syncDate = frontmatter.sync_date;
+	const readStatus = frontmatter.read_status;
+	const percentRead = Number(frontmatter.percent_read);
+
+	return {
+		path,
+		title:
+			typeof title === "string" && title.trim()
+				? title
+				: (path.split("/").pop() ?? path).replace(/\.md$/i, ""),
+		highlights: stats.highlights_total,
+		insights: stats.insights_created,
+		pendingMemos: pendingMemoCount(content),
+		lastSync: typeof syncDate === "string" ? syncDate : undefined,
+		readStatus: typeof readStatus === "string" ? readStatus : undefined,
+		percentRead:
+			frontmatter.percent_read == null || Number.isNaN(percentRead) ? undefined : percentRead,
+	};
+}
+
+/**
+ * Sorted copy of the rows. Rows missing the sorted value go last in either
+ * direction; ties are broken by title.
+ */
+export function sortOverviews(
+	rows: BookOverview[],
+	key: OverviewSortKey,
+	descending = false,
+): BookOverview[] {
+	const direction = descending ? -1 : 1;
+
+	return [...rows].sort((a, b) => {
+		const x = a[key];
+		const y = b[key];
+		if (x !== y) {
+			if (x === undefined) return 1;
+			if (y === undefined) return -1;
+			const order =
+				typeof x === "number" && typeof y === "number"
+					? x - y
+					: String(x).localeCompare(String(y));
+			if (order !== 0) return order * direction;
+		}
+		return a.title.localeCompare(b.title);
+	});
+}
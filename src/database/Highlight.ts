@@ -1,7 +1,8 @@
 import { BookDetails, Bookmark, Content, Highlight } from "./interfaces";
 import { Repository } from "./repository";
 
-type bookTitle = string;
+// VolumeID of a book, or its title for bookmarks without one
+type bookId = string;
 export type chapter = string;
 
 export class HighlightService {
@@ -26,7 +27,11 @@ export class HighlightService {
 		return details;
 	}
 
-	convertToMap(arr: Highlight[]): Map<bookTitle, Map<chapter, Bookmark[]>> {
+	/**
+	 * Group highlights by book, then chapter. Books are told apart by VolumeID,
+	 * so editions that share a title are kept separate.
+	 */
+	convertToMap(arr: Highlight[]): Map<bookId, Map<chapter, Bookmark[]>> {
 		const m = new Map<string, Map<string, Bookmark[]>>();
 
 		arr.forEach((x) => {
@@ -34,7 +39,8 @@ export class HighlightService {
 				throw new Error("BookTitle must be set");
 			}
 
-			const existingBook = m.get(x.content.bookTitle);
+			const book = x.bookmark.volumeId ?? x.content.bookTitle;
+			const existingBook = m.get(book);
 			if (existingBook) {
 				const existingChapter = existingBook.get(x.content.title);
 
@@ -45,7 +51,7 @@ export class HighlightService {
 				}
 			} else {
 				m.set(
-					x.content.bookTitle,
+					book,
 					new Map<string, Bookmark[]>().set(x.content.title, [
 						x.bookmark,
 					]),
@@ -73,6 +79,7 @@ export class HighlightService {
 
 			return (
 				a.content.bookTitle.localeCompare(b.content.bookTitle) ||
+				(a.content.volumeIndex ?? 0) - (b.content.volumeIndex ?? 0) ||
 				a.content.contentId.localeCompare(b.content.contentId)
 			);
 		});
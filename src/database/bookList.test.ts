@@ -0,0 +1,102 @@
+import * as chai from "chai";
+import {
+	BookListEntry,
+	bookListEntry,
+	countPendingHighlights,
+	DEFAULT_BOOK_LIST_FILTER,
+	distinctValues,
+	filterBooks,
+	sortBooks,
+} from "./bookList";
+import { ReadStatus } from "./interfaces";
+
+describe("bookList", async function () {
+	const entries: BookListEntry[] = [
+		bookListEntry(
+			{ volumeId: "vol-1", title: "Dune" },
+			{
+				title: "Dune",
+				author: "Frank Herbert",
+				series: "Dune",
+				readStatus: ReadStatus.Read,
+				dateLastRead: new Date("2024-01-01"),
+			},
+			12,
+			true,
+			{ newHighlights: 0, ignoredHighlights: 2 },
+		),
+		bookListEntry(
+			{ volumeId: "vol-2", title: "Children of Dune" },
+			{
+				title: "Children of Dune",
+				author: "Frank Herbert",
+				series: "Dune",
+				readStatus: ReadStatus.Reading,
+				dateLastRead: new Date("2024-03-01"),
+			},
+			3,
+			true,
+			{ newHighlights: 1, ignoredHighlights: 0 },
+		),
+		bookListEntry({ volumeId: "vol-3", title: "Untitled" }, undefined, 5, false, {
+			newHighlights: 5,
+			ignoredHighlights: 0,
+		}),
+	];
+	const titles = (list: BookListEntry[]) => list.map((e) => e.title);
+
+	it("searches title, author and series, case-insensitively", function () {
+		const search = (query: string) =>
+			titles(filterBooks(entries, { ...DEFAULT_BOOK_LIST_FILTER, query }));
+
+		chai.expect(search("")).deep.equal(["Dune", "Children of Dune", "Untitled"]);
+		chai.expect(search("herbert children")).deep.equal(["Children of Dune"]);
+		chai.expect(search("DUNE")).deep.equal(["Dune", "Children of Dune"]);
+	});
+
+	it("filters by new highlights, read status, author and series", function () {
+		const filter = { ...DEFAULT_BOOK_LIST_FILTER };
+
+		chai.expect(titles(filterBooks(entries, { ...filter, newHighlightsOnly: true }))).deep.equal([
+			"Children of Dune",
+			"Untitled",
+		]);
+		chai.expect(titles(filterBooks(entries, { ...filter, readStatus: ReadStatus.Read }))).deep.equal(
+			["Dune"],
+		);
+		chai.expect(titles(filterBooks(entries, { ...filter, author: "Frank Herbert" }))).deep.equal([
+			"Dune",
+			"Children of Dune",
+		]);
+		chai.expect(titles(filterBooks(entries, { ...filter, series: "Other" }))).deep.equal([]);
+	});
+
+	it("sorts by title, last read and highlight count", function () {
+		chai.expect(titles(sortBooks(entries, "title"))).deep.equal([
+			"Children of Dune",
+			"Dune",
+			"Untitled",
+		]);
+		chai.expect(titles(sortBooks(entries, "lastRead"))).deep.equal([
+			"Children of Dune",
+			"Dune",
+			"Untitled",
+		]);
+		chai.expect(titles(sortBooks(entries, "highlights"))).deep.equal([
+			"Dune",
+			"Untitled",
+			"Children of Dune",
+		]);
+	});
+
+	it("counts highlights missing from the note, ignored ones apart", function () {
+		chai.expect(
+			countPendingHighlights(["a", "b", "c", "d"], new Set(["a"]), new Set(["a", "c"])),
+		).deep.equal({ newHighlights: 2, ignoredHighlights: 1 });
+	});
+
+	it("lists distinct filter values", function () {
+		chai.expect(distinctValues(entries, "author")).deep.equal(["Frank Herbert"]);
+		chai.expect(distinctValues(entries, "series")).deep.equal(["Dune"]);
+	});
+});
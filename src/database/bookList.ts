@@ -0,0 +1,128 @@
+import { BookDetails, BookRef, ReadStatus } from "./interfaces";
+
+/**
+ * A book in the import modal's book selector. Built once per loaded DB;
+ * searching, filtering and sorting only work on these entries.
+ */
+export interface BookListEntry {
+	// VolumeID; editions may share a title
+	id: string;
+	title: string;
+	author?: string;
+	series?: string;
+	seriesNumber?: number;
+	readStatus?: ReadStatus;
+	dateLastRead?: Date;
+	highlightCount: number;
+	hasNote: boolean;
+	// Highlights in the DB that are not in the inbox note yet
+	newHighlights: number;
+	// Missing highlights rejected in the picker; not counted as new
+	ignoredHighlights: number;
+}
+
+export interface PendingCounts {
+	newHighlights: number;
+	ignoredHighlights: number;
+}
+
+/**
+ * Count a book's DB bookmarks that are missing from its inbox note,
+ * keeping ignored ones apart.
+ */
+export function countPendingHighlights(
+	bookmarkIds: string[],
+	inNote: Set<string>,
+	ignored: Set<string>,
+): PendingCounts {
+	const counts: PendingCounts = { newHighlights: 0, ignoredHighlights: 0 };
+	for (const id of bookmarkIds) {
+		if (inNote.has(id)) continue;
+		if (ignored.has(id)) counts.ignoredHighlights++;
+		else counts.newHighlights++;
+	}
+	return counts;
+}
+
+export interface BookListFilter {
+	// Matched against title, author and series
+	query: string;
+	newHighlightsOnly: boolean;
+	readStatus?: ReadStatus;
+	// Exact values; empty matches every book
+	author: string;
+	series: string;
+}
+
+export type BookListSort = "title" | "lastRead" | "highlights";
+
+export const DEFAULT_BOOK_LIST_FILTER: BookListFilter = {
+	query: "",
+	newHighlightsOnly: false,
+	author: "",
+	series: "",
+};
+
+export function bookListEntry(
+	book: BookRef,
+	details: BookDetails | undefined,
+	highlightCount: number,
+	hasNote: boolean,
+	pending: PendingCounts,
+): BookListEntry {
+	return {
+		id: book.volumeId,
+		title: book.title,
+		author: details?.author,
+		series: details?.series,
+		seriesNumber: details?.seriesNumber,
+		readStatus: details?.readStatus,
+		dateLastRead: details?.dateLastRead,
+		highlightCount,
+		hasNote,
+		...pending,
+	};
+}
+
+export function filterBooks(entries: BookListEntry[], filter: BookListFilter): BookListEntry[] {
+	const words = filter.query.toLowerCase().split(/\s+/).filter((w) => w.length > 0);
+
+	return entries.filter((e) => {
+		if (filter.newHighlightsOnly && e.newHighlights === 0) return false;
+		if (filter.readStatus !== undefined && e.readStatus !== filter.readStatus) return false;
+		if (filter.author && e.author !== filter.author) return false;
+		if (filter.series && e.series !== filter.series) return false;
+
+		const haystack = [e.title, e.author ?? "", e.series ?? ""].join("\n").toLowerCase();
+		return words.every((w) => haystack.includes(w));
+	});
+}
+
+/**
+ * Sorted copy. Last read and highlight count put the most recent / largest
+ * first; books never opened go last. Ties are broken by title.
+ */
+export function sortBooks(entries: BookListEntry[], sort: BookListSort): BookListEntry[] {
+	const lastRead = (e: BookListEntry) => {
+		const t = e.dateLastRead?.getTime();
+		return t === undefined || Number.isNaN(t) ? -Infinity : t;
+	};
+
+	return [...entries].sort((a, b) => {
+		let order = 0;
+		if (sort === "lastRead") order = lastRead(b) - lastRead(a);
+		if (sort === "highlights") order = b.highlightCount - a.highlightCount;
+		// -Infinity - -Infinity is NaN
+		return order || a.title.localeCompare(b.title);
+	});
+}
+
+// Distinct non-empty values for a filter dropdown, sorted
+export function distinctValues(entries: BookListEntry[], key: "author" | "series"): string[] {
+	const values = new Set<string>();
+	for (const e of entries) {
+		const value = e[key];
+		if (value) values.add(value);
+	}
+	return Array.from(values).sort((a, b) => a.localeCompare(b));
+}
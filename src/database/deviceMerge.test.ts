@@ -0,0 +1,94 @@
+import * as chai from "chai";
+import { mergeDeviceHighlights } from "./deviceMerge";
+import { Bookmark } from "./interfaces";
+
+describe("deviceMerge", async function () {
+	function bookmark(id: string, text: string, created: string, modified?: string): Bookmark {
+		return {
+			bookmarkId: id,
+			text,
+			contentId: "content1",
+			dateCreated: new Date(created),
+			dateModified: modified ? new Date(modified) : undefined,
+		};
+	}
+
+	const books = (chapters: [string, Bookmark[]][]) => new Map([["Dune", new Map(chapters)]]);
+
+	it("tags highlights with their device", function () {
+		const merged = mergeDeviceHighlights([
+			{ device: "Kitchen", books: books([["Ch 1", [bookmark("a", "one", "2024-01-01")]]]) },
+		]);
+
+		chai.expect(merged.get("Dune")?.get("Ch 1")?.[0].device).equal("Kitchen");
+		chai.expect(
+			mergeDeviceHighlights([
+				{ device: "", books: books([["Ch 1", [bookmark("a", "one", "2024-01-01")]]]) },
+			])
+				.get("Dune")
+				?.get("Ch 1")?.[0],
+		).not.have.property("device");
+	});
+
+	it("keeps a highlight found on several devices once", function () {
+		const merged = mergeDeviceHighlights([
+			{
+				device: "Kitchen",
+				books: books([
+					["Ch 1", [bookmark("a", "one", "2024-01-01"), bookmark("b", "two", "2024-01-03")]],
+				]),
+			},
+			{
+				device: "Office",
+				books: books([
+					[
+						"Ch 1",
+						[
+							// same BookmarkID, edited later on this device
+							bookmark("a", "one, edited", "2024-01-01", "2024-02-01"),
+							// same text under another BookmarkID
+							bookmark("x", "two", "2024-01-03"),
+							bookmark("c", "three", "2024-01-02"),
+						],
+					],
+					["Ch 2", [bookmark("d", "four", "2024-01-04")]],
+				]),
+			},
+		]);
+		const chapter = merged.get("Dune")?.get("Ch 1") ?? [];
+
+		chai.expect(chapter.map((b) => [b.bookmarkId, b.text, b.device])).deep.equal([
+			["a", "one, edited", "Office"],
+			["c", "three", "Office"],
+			["b", "two", "Kitchen"],
+		]);
+		chai.expect(Array.from(merged.get("Dune")?.keys() ?? [])).deep.equal(["Ch 1", "Ch 2"]);
+	});
+
+	it("keeps a passage highlighted twice on one device", function () {
+		const merged = mergeDeviceHighlights([
+			{
+				device: "",
+				books: books([
+					["Ch 1", [bookmark("a", "one", "2024-01-01"), bookmark("b", "one", "2024-01-02")]],
+				]),
+			},
+		]);
+
+		chai.expect(merged.get("Dune")?.get("Ch 1")?.map((b) => b.bookmarkId)).deep.equal(["a", "b"]);
+	});
+
+	it("tags a newer copy from another device with the device of the kept id", function () {
+		const merged = mergeDeviceHighlights([
+			{ device: "Kitchen", books: books([["Ch 1", [bookmark("b", "one", "2024-01-01")]]]) },
+			{
+				device: "Office",
+				books: books([["Ch 1", [bookmark("x", "one", "2024-01-01", "2024-02-01")]]]),
+			},
+		]);
+
+		chai.expect(merged.get("Dune")?.get("Ch 1")?.map((b) => [b.bookmarkId, b.device])).deep.equal([
+			["b", "Kitchen"],
+		]);
+	});
+});
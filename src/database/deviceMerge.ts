@@ -0,0 +1,118 @@
+import { chapter } from "./Highlight";
+import { Bookmark } from "./interfaces";
+
+// VolumeID -> chapter -> bookmarks
+export type HighlightsByBook = Map<string, Map<chapter, Bookmark[]>>;
+
+// A loaded KoboReader.sqlite and the device it came from ("" when unnamed)
+export interface DatabaseSource {
+	device: string;
+	buffer: ArrayBuffer;
+}
+
+export interface DeviceHighlights {
+	device: string;
+	books: HighlightsByBook;
+}
+
+/**
+ * What makes two highlights of a book the same one across devices when
+ * their BookmarkIDs differ: the chapter and the text, whitespace collapsed.
+ */
+export function highlightTextKey(chapterName: string, text: string): string {
+	return `${chapterName.trim()}\u0000${text.replace(/\s+/g, " ").trim()}`;
+}
+
+// A copy of the bookmark tagged with the device, untagged for ""
+function tagDevice(bookmark: Bookmark, device: string | undefined): Bookmark {
+	const tagged: Bookmark = { ...bookmark, device };
+	if (!device) delete tagged.device;
+	return tagged;
+}
+
+// Where a kept copy sits in the merged map, and the devices it stands for
+interface KeptCopy {
+	bookmarks: Bookmark[];
+	index: number;
+	devices: Set<string>;
+}
+
+function lastChange(b: Bookmark): number {
+	const t = (b.dateModified ?? b.dateCreated).getTime();
+	return Number.isNaN(t) ? 0 : t;
+}
+
+/**
+ * Merge the highlights of several devices into one map, each bookmark tagged
+ * with the device it came from. The same highlight on two devices (same
+ * BookmarkID, or same text in the same chapter of the same book) is kept
+ * once, in its most recently modified version. Highlights of one device
+ * are never merged by text, as a passage can be highlighted twice.
+ */
+export function mergeDeviceHighlights(
+	sources: DeviceHighlights[],
+	sortByChapterProgress = false,
+): HighlightsByBook {
+	const merged: HighlightsByBook = new Map();
+	const byId = new Map<string, KeptCopy>();
+	// book/chapter/text -> kept copies with that text
+	const byText = new Map<string, KeptCopy[]>();
+
+	for (const { device, books } of sources) {
+		for (const [bookId, chapters] of books) {
+			const mergedChapters = merged.get(bookId) ?? new Map<chapter, Bookmark[]>();
+			merged.set(bookId, mergedChapters);
+
+			for (const [chapterName, bookmarks] of chapters) {
+				const mergedBookmarks = mergedChapters.get(chapterName) ?? [];
+				mergedChapters.set(chapterName, mergedBookmarks);
+
+				for (const bookmark of bookmarks) {
+					const tagged = tagDevice(bookmark, device);
+					const textKey = `${bookId}\u0000${highlightTextKey(chapterName, bookmark.text)}`;
+					const kept =
+						byId.get(bookmark.bookmarkId) ??
+						byText.get(textKey)?.find((k) => !k.devices.has(device));
+
+					if (kept) {
+						kept.devices.add(device);
+						const current = kept.bookmarks[kept.index];
+						if (lastChange(tagged) > lastChange(current)) {
+							// The newer version keeps the BookmarkID already in use,
+							// together with the device that BookmarkID is on
+							kept.bookmarks[kept.index] =
+								current.bookmarkId === tagged.bookmarkId
+									? tagged
+									: tagDevice({ ...tagged, bookmarkId: current.bookmarkId }, current.device);
+						}
+						continue;
+					}
+
+					const copy = {
+						bookmarks: mergedBookmarks,
+						index: mergedBookmarks.length,
+						devices: new Set([device]),
+					};
+					mergedBookmarks.push(tagged);
+					byId.set(bookmark.bookmarkId, copy);
+					byText.set(textKey, [...(byText.get(textKey) ?? []), copy]);
+				}
+			}
+		}
+	}
+
+	if (sources.length > 1) {
+		for (const chapters of merged.values()) {
+			for (const bookmarks of chapters.values()) {
+				bookmarks.sort((a, b) =>
+					sortByChapterProgress
+						? (a.chapterProgress ?? 0) - (b.chapterProgress ?? 0) ||
+							a.dateCreated.getTime() - b.dateCreated.getTime()
+						: a.dateCreated.getTime() - b.dateCreated.getTime(),
+				);
+			}
+		}
+	}
+
+	return merged;
+}
@@ -2,8 +2,18 @@ export interface Bookmark {
 	bookmarkId: string;
 	text: string;
 	contentId: string;
+	// ContentID of the book the highlight is in
+	volumeId?: string;
 	note?: string;
 	dateCreated: Date;
+	// Position within the chapter, 0 to 1
+	chapterProgress?: number;
+	// Bumped by Kobo when the annotation is edited
+	dateModified?: Date;
+	// Index into HIGHLIGHT_COLORS
+	color?: number;
+	// Name of the device profile the highlight was read from
+	device?: string;
 }
 
 export interface Content {
@@ -11,6 +21,8 @@ export interface Content {
 	contentId: string;
 	chapterIdBookmarked?: string;
 	bookTitle?: string;
+	// Position of the chapter in reading order
+	volumeIndex?: number;
 }
 
 export interface Highlight {
@@ -20,6 +32,8 @@ export interface Highlight {
 
 export interface BookDetails {
 	title: string;
+	// ContentID of the book, what bookmarks call their VolumeID
+	volumeId?: string;
 	author: string;
 	description?: string;
 	publisher?: string;
@@ -32,9 +46,18 @@ export interface BookDetails {
 	timeSpentReading?: number;
 }
 
+// A book with highlights: its VolumeID, which tells editions apart, and title
+export interface BookRef {
+	volumeId: string;
+	title: string;
+}
+
 export enum ReadStatus {
 	Unknown = -1,
 	Unopened = 0,
 	Reading = 1,
 	Read = 2,
 }
+
+// Highlight colours by their Bookmark.Color value
+export const HIGHLIGHT_COLORS: readonly string[] = ["yellow", "pink", "blue", "green"];
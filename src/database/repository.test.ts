@@ -0,0 +1,166 @@
+import * as chai from "chai";
+import SqlJs, { Database } from "sql.js";
+import { binary } from "../binaries/sql-wasm";
+import { ReadStatus } from "./interfaces";
+import { Repository } from "./repository";
+
+// The parts of a KoboReader.sqlite schema the plugin reads
+const SCHEMA = `
+	create table content (
+		ContentID text primary key,
+		ContentType integer,
+		Title text,
+		BookTitle text,
+		ChapterIDBookmarked text,
+		VolumeIndex integer,
+		Attribution text,
+		Description text,
+		Publisher text,
+		DateLastRead text,
+		ReadStatus integer,
+		___PercentRead integer,
+		ISBN text,
+		Series text,
+		SeriesNumber text,
+		TimeSpentReading integer
+	);
+	create table Bookmark (
+		BookmarkID text primary key,
+		VolumeID text,
+		ContentID text,
+		Text text,
+		Annotation text,
+		DateCreated text,
+		ChapterProgress real,
+		DateModified text,
+		Color integer
+	);
+`;
+
+async function createFixture(): Promise<Database> {
+	const SQL = await SqlJs({ wasmBinary: binary.buffer as ArrayBuffer });
+	const db = new SQL.Database();
+	db.run(SCHEMA);
+
+	const book = db.prepare(
+		`insert into content (ContentID, ContentType, Title, Attribution, Description, Publisher,
+			DateLastRead, ReadStatus, ___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading)
+		 values (?, 6, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+	);
+	book.run(["book-1", "Dune", "Frank Herbert", "Desert planet", "Ace", "2024-03-01T10:00:00Z", 1, 42, "9780441013593", "Dune", "1", 3600]);
+	// A quote in the title must not break (or change) any query
+	book.run(["book-2", "Harry's Book", "Someone", null, null, null, 2, 100, null, null, null, 0]);
+	book.run(["book-3", "Unread", "Nobody", null, null, null, 0, 0, null, null, null, 0]);
+	book.free();
+
+	const chapter = db.prepare(
+		`insert into content (ContentID, ContentType, Title, BookTitle, ChapterIDBookmarked, VolumeIndex)
+		 values (?, 9, ?, ?, ?, ?);`,
+	);
+	chapter.run(["book-1!ch1", "Chapter 1", "Dune", "ch1.html", 1]);
+	chapter.run(["book-1!ch2", "Chapter 2", "Dune", "ch2.html", 2]);
+	chapter.run(["book-2!ch1", "Only chapter", "Harry's Book", "ch1.html", 1]);
+	chapter.free();
+
+	const bookmark = db.prepare(
+		`insert into Bookmark (BookmarkID, VolumeID, ContentID, Text, Annotation, DateCreated,
+			ChapterProgress, DateModified, Color)
+		 values (?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+	);
+	bookmark.run(["bm-1", "book-1", "book-1!ch1", "Fear is  the\nmind-killer.", "note", "2024-01-01T00:00:00Z", 0.5, null, 1]);
+	bookmark.run(["bm-2", "book-1", "book-1!ch2", "The spice must flow.", null, "2024-01-02T00:00:00Z", 0.1, "2024-01-03T00:00:00Z", null]);
+	bookmark.run(["bm-3", "book-2", "book-2!ch1", "A quote", null, "2023-12-31T00:00:00Z", 0.9, null, null]);
+	// Bookmarks without text (plain bookmarks) are not highlights
+	bookmark.run(["bm-4", "book-2", "book-2!ch1", null, null, "2024-01-04T00:00:00Z", 0.2, null, null]);
+	bookmark.free();
+
+	return db;
+}
+
+describe("Repository", async function () {
+	let db: Database;
+	let repo: Repository;
+
+	before(async function () {
+		db = await createFixture();
+		repo = new Repository(db);
+	});
+
+	after(function () {
+		db.close();
+	});
+
+	it("lists books with bookmarks by title", async function () {
+		chai.expect(await repo.getBooksWithBookmarks()).deep.equal([
+			{ volumeId: "book-1", title: "Dune" },
+			{ volumeId: "book-2", title: "Harry's Book" },
+		]);
+	});
+
+	it("reads highlights, skipping bookmarks without text", async function () {
+		const bookmarks = await repo.getAllBookmark();
+
+		chai.expect(bookmarks.map((b) => b.bookmarkId)).deep.equal(["bm-3", "bm-1", "bm-2"]);
+		chai.expect(bookmarks[1]).deep.include({
+			text: "Fear is the mind-killer.",
+			contentId: "book-1!ch1",
+			note: "note",
+			chapterProgress: 0.5,
+			color: 1,
+			volumeId: "book-1",
+		});
+		chai.expect(bookmarks[2].dateModified?.toISOString()).equal("2024-01-03T00:00:00.000Z");
+		chai.expect(await repo.getTotalBookmark()).equal(3);
+	});
+
+	it("orders highlights by chapter progress on request", async function () {
+		const bookmarks = await repo.getAllBookmark(true);
+		chai.expect(bookmarks.map((b) => b.bookmarkId)).deep.equal(["bm-2", "bm-1", "bm-3"]);
+	});
+
+	it("finds a bookmark by id", async function () {
+		chai.expect((await repo.getBookmarkById("bm-2"))?.text).equal("The spice must flow.");
+		chai.expect(await repo.getBookmarkById("' or 1=1 --")).equal(null);
+	});
+
+	it("reads content by id and by book title", async function () {
+		chai.expect(await repo.getContentByContentId("book-1!ch2")).deep.include({
+			title: "Chapter 2",
+			bookTitle: "Dune",
+		});
+		chai.expect(
+			(await repo.getAllContentByBookTitleOrderedByContentId("Harry's Book")).map((c) => c.title),
+		).deep.equal(["Only chapter"]);
+		chai.expect(
+			(await repo.getFirstContentLikeContentIdWithBookmarkIdNotNull("book-1"))?.contentId,
+		).equal("book-1!ch1");
+	});
+
+	it("reads book details", async function () {
+		chai.expect(await repo.getBookDetailsByBookTitle("Dune")).deep.equal({
+			title: "Dune",
+			volumeId: "book-1",
+			author: "Frank Herbert",
+			description: "Desert planet",
+			publisher: "Ace",
+			dateLastRead: new Date("2024-03-01T10:00:00Z"),
+			readStatus: ReadStatus.Reading,
+			percentRead: 42,
+			isbn: "9780441013593",
+			series: "Dune",
+			seriesNumber: 1,
+			timeSpentReading: 3600,
+		});
+		chai.expect((await repo.getBookDetailsByBookTitle("Harry's Book"))?.readStatus).equal(
+			ReadStatus.Read,
+		);
+		chai.expect(await repo.getBookDetailsByBookTitle("Missing")).equal(null);
+		chai.expect((await repo.getBookDetailsByVolumeId("book-2"))?.title).equal("Harry's Book");
+		chai.expect(await repo.getBookDetailsByVolumeId("book-1!ch1")).equal(null);
+		chai.expect((await repo.getAllBookDetails()).map((b) => [b.title, b.volumeId])).deep.equal([
+			["Dune", "book-1"],
+			["Harry's Book", "book-2"],
+			["Unread", "book-3"],
+		]);
+	});
+});
@@ -1,5 +1,12 @@
-import { Database, Statement } from "sql.js";
-import { BookDetails, Bookmark, Content } from "./interfaces";
+import { Database, SqlValue, Statement } from "sql.js";
+import { BookDetails, Bookmark, BookRef, Content } from "./interfaces";
+
+// content.ContentType of a book; chapters and other parts use other values
+const BOOK_CONTENT_TYPE = 6;
+
+// Read by parseBookDetails, in this order
+const BOOK_DETAILS_COLUMNS = `Title, Attribution, Description, Publisher, DateLastRead, ReadStatus,
+	___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading, ContentID`;
 
 export class Repository {
 	db: Database;
@@ -9,12 +16,13 @@ export class Repository {
 	}
 
 	getAllBookmark(sortByChapterProgress?: boolean): Promise<Bookmark[]> {
+		const color = this.bookmarkColorColumn();
 		const query = sortByChapterProgress
-			? `select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress
+			? `select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress, DateModified, ${color}, VolumeID
 				 from Bookmark
 				 where Text is not null
 				 order by ChapterProgress ASC, DateCreated ASC;`
-			: `select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress
+			: `select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress, DateModified, ${color}, VolumeID
 				 from Bookmark
 				 where Text is not null
 				 order by DateCreated ASC;`;
@@ -49,6 +57,10 @@ export class Repository {
 				contentId: String(contentId),
 				note: row[3] == null ? undefined : String(row[3]),
 				dateCreated: new Date(String(dateCreated)),
+				chapterProgress: row[5] == null ? undefined : Number(row[5]),
+				dateModified: row[6] == null ? undefined : new Date(String(row[6])),
+				color: row[7] == null ? undefined : Number(row[7]),
+				volumeId: row[8] == null ? undefined : String(row[8]),
 			});
 		}
 	
@@ -70,7 +82,7 @@ export class Repository {
 
 	getBookmarkById(id: string): Promise<Bookmark | null> {
 		const statement = this.db.prepare(
-			`select BookmarkID, Text, ContentID, annotation, DateCreated
+			`select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress, DateModified, ${this.bookmarkColorColumn()}, VolumeID
 			 from Bookmark
 			 where BookmarkID = $id;`,
 			{ $id: id },
@@ -99,6 +111,10 @@ export class Repository {
 				contentId: String(contentId),
 				note: row?.[3] == null ? undefined : String(row[3]),
 				dateCreated: new Date(String(dateCreated)),
+				chapterProgress: row?.[5] == null ? undefined : Number(row[5]),
+				dateModified: row?.[6] == null ? undefined : new Date(String(row[6])),
+				color: row?.[7] == null ? undefined : Number(row[7]),
+				volumeId: row?.[8] == null ? undefined : String(row[8]),
 			});
 		} finally {
 			statement.free();
@@ -107,7 +123,7 @@ export class Repository {
 	
 	getContentByContentId(contentId: string): Promise<Content | null> {
 		const statement = this.db.prepare(
-			`select Title, ContentID, ChapterIDBookmarked, BookTitle
+			`select Title, ContentID, ChapterIDBookmarked, BookTitle, VolumeIndex
 			 from content
 			 where ContentID = $id;`,
 			{ $id: contentId },
@@ -128,7 +144,7 @@ export class Repository {
 	
 	getContentLikeContentId(contentId: string): Promise<Content | null> {
 		const statement = this.db.prepare(
-			`select Title, ContentID, ChapterIDBookmarked, BookTitle
+			`select Title, ContentID, ChapterIDBookmarked, BookTitle, VolumeIndex
 			 from content
 			 where ContentID like $id;`,
 			{ $id: `%${contentId}%` },
@@ -152,7 +168,7 @@ export class Repository {
 
 	getFirstContentLikeContentIdWithBookmarkIdNotNull(contentId: string): Promise<Content | null> {
 		const statement = this.db.prepare(
-			`select Title, ContentID, ChapterIDBookmarked, BookTitle
+			`select Title, ContentID, ChapterIDBookmarked, BookTitle, VolumeIndex
 			 from content
 			 where ContentID like $id
 				 and ChapterIDBookmarked IS NOT NULL
@@ -170,7 +186,7 @@ export class Repository {
 	
 	getAllContent(limit = 100): Promise<Content[]> {
 		const statement = this.db.prepare(
-			`select Title, ContentID, ChapterIDBookmarked, BookTitle
+			`select Title, ContentID, ChapterIDBookmarked, BookTitle, VolumeIndex
 			 from content
 			 limit $limit;`,
 			{ $limit: limit },
@@ -186,7 +202,7 @@ export class Repository {
 	
 	getAllContentByBookTitle(bookTitle: string): Promise<Content[]> {
 		const statement = this.db.prepare(
-			`select Title, ContentID, ChapterIDBookmarked, BookTitle
+			`select Title, ContentID, ChapterIDBookmarked, BookTitle, VolumeIndex
 			 from content
 			 where BookTitle = $bookTitle;`,
 			{ $bookTitle: bookTitle },
@@ -203,7 +219,7 @@ export class Repository {
 
 	getAllContentByBookTitleOrderedByContentId(bookTitle: string): Promise<Content[]> {
 		const statement = this.db.prepare(
-			`select Title, ContentID, ChapterIDBookmarked, BookTitle
+			`select Title, ContentID, ChapterIDBookmarked, BookTitle, VolumeIndex
 			 from content
 			 where BookTitle = $bookTitle
 			 order by ContentID;`,
@@ -221,11 +237,12 @@ export class Repository {
 
 	getBookDetailsByBookTitle(bookTitle: string): Promise<BookDetails | null> {
 		const statement = this.db.prepare(
-			`select Attribution, Description, Publisher, DateLastRead, ReadStatus, ___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading
+			`select Attribution, Description, Publisher, DateLastRead, ReadStatus, ___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading, ContentID
 			 from content
 			 where Title = $title
+			 order by ContentType = $bookType desc
 			 limit 1;`,
-			{ $title: bookTitle },
+			{ $title: bookTitle, $bookType: BOOK_CONTENT_TYPE },
 		);
 	
 		try {
@@ -249,6 +266,7 @@ export class Repository {
 	
 			return Promise.resolve({
 				title: bookTitle,
+				volumeId: row?.[10] == null ? undefined : String(row[10]),
 				author: String(author),
 				description: row?.[1] == null ? undefined : String(row[1]),
 				publisher: row?.[2] == null ? undefined : String(row[2]),
@@ -268,18 +286,7 @@ export class Repository {
 
 	getAllBookDetails(): Promise<BookDetails[]> {
 		const statement = this.db.prepare(
-			`select distinct
-				 Title,
-				 Attribution as Author,
-				 Description,
-				 Publisher,
-				 DateLastRead,
-				 ReadStatus,
-				 ___PercentRead,
-				 ISBN,
-				 Series,
-				 SeriesNumber,
-				 TimeSpentReading
+			`select distinct ${BOOK_DETAILS_COLUMNS}
 			 from content
 			 where Title is not null
 			 order by Title asc;`,
@@ -287,43 +294,89 @@ export class Repository {
 	
 		try {
 			const books: BookDetails[] = [];
-	
 			while (statement.step()) {
-				const row = statement.get();
-				const title = row?.[0];
-				const author = row?.[1];
+				const book = this.parseBookDetails(statement.get());
+				if (book) books.push(book);
+			}
+			return Promise.resolve(books);
+		} finally {
+			statement.free();
+		}
+	}
+
+	getBookDetailsByVolumeId(volumeId: string): Promise<BookDetails | null> {
+		const statement = this.db.prepare(
+			`select ${BOOK_DETAILS_COLUMNS}
+			 from content
+			 where ContentID = $id;`,
+			{ $id: volumeId },
+		);
 	
-				if (title == null || author == null) {
-					continue;
-				}
+		try {
+			return Promise.resolve(statement.step() ? this.parseBookDetails(statement.get()) : null);
+		} finally {
+			statement.free();
+		}
+	}
+
+	// The books (not chapters) that have at least one bookmark
+	getBooksWithBookmarks(): Promise<BookRef[]> {
+		const statement = this.db.prepare(
+			`select distinct content.ContentID, content.Title
+			 from content
+			 join Bookmark on content.ContentID = Bookmark.VolumeID
+			 where content.ContentType = $bookType
+			 order by content.Title asc, content.ContentID asc;`,
+			{ $bookType: BOOK_CONTENT_TYPE },
+		);
 	
-				const dateLastReadRaw = row?.[4];
-				const readStatusRaw = row?.[5];
-				const percentReadRaw = row?.[6];
-				const seriesNumberRaw = row?.[9];
-				const timeSpentReadingRaw = row?.[10];
-	
-				books.push({
-					title: String(title),
-					author: String(author),
-					description: row?.[2] == null ? undefined : String(row[2]),
-					publisher: row?.[3] == null ? undefined : String(row[3]),
-					dateLastRead: dateLastReadRaw == null ? undefined : new Date(String(dateLastReadRaw)),
-					readStatus: readStatusRaw == null ? 0 : Number(readStatusRaw),
-					percentRead: percentReadRaw == null ? 0 : Number(percentReadRaw),
-					isbn: row?.[7] == null ? undefined : String(row[7]),
-					series: row?.[8] == null ? undefined : String(row[8]),
-					seriesNumber: seriesNumberRaw == null ? undefined : Number(seriesNumberRaw),
-					timeSpentReading: timeSpentReadingRaw == null ? 0 : Number(timeSpentReadingRaw),
-				});
+		try {
+			const books: BookRef[] = [];
+			while (statement.step()) {
+				const [volumeId, title] = statement.get();
+				if (volumeId != null && title != null) {
+					books.push({ volumeId: String(volumeId), title: String(title) });
+				}
 			}
-	
 			return Promise.resolve(books);
 		} finally {
 			statement.free();
 		}
 	}
-	
+
+	// Highlight colors only exist on newer firmware
+	private bookmarkColorColumn(): string {
+		const res = this.db.exec(`pragma table_info(Bookmark);`);
+		const hasColor = res[0]?.values.some((row) => row[1] === "Color") ?? false;
+		return hasColor ? "Color" : "NULL";
+	}
+
+	// A row of BOOK_DETAILS_COLUMNS; null when title or author is missing
+	private parseBookDetails(row: SqlValue[]): BookDetails | null {
+		const [title, author] = row;
+		if (title == null || author == null) return null;
+
+		const dateLastReadRaw = row[4];
+		const readStatusRaw = row[5];
+		const percentReadRaw = row[6];
+		const seriesNumberRaw = row[9];
+		const timeSpentReadingRaw = row[10];
+
+		return {
+			title: String(title),
+			volumeId: row[11] == null ? undefined : String(row[11]),
+			author: String(author),
+			description: row[2] == null ? undefined : String(row[2]),
+			publisher: row[3] == null ? undefined : String(row[3]),
+			dateLastRead: dateLastReadRaw == null ? undefined : new Date(String(dateLastReadRaw)),
+			readStatus: readStatusRaw == null ? 0 : Number(readStatusRaw),
+			percentRead: percentReadRaw == null ? 0 : Number(percentReadRaw),
+			isbn: row[7] == null ? undefined : String(row[7]),
+			series: row[8] == null ? undefined : String(row[8]),
+			seriesNumber: seriesNumberRaw == null ? undefined : Number(seriesNumberRaw),
+			timeSpentReading: timeSpentReadingRaw == null ? 0 : Number(timeSpentReadingRaw),
+		};
+	}
 
 	private parseContentStatement(statement: Statement): Content[] {
 		const contents: Content[] = [];
@@ -335,6 +388,7 @@ export class Repository {
 				contentId: row[1]?.toString() ?? "",
 				chapterIdBookmarked: row[2]?.toString(),
 				bookTitle: row[3]?.toString(),
+				volumeIndex: row[4] == null ? undefined : Number(row[4]),
 			});
 		}
 
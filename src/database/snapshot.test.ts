@@ -0,0 +1,76 @@
+import * as chai from "chai";
+import { Bookmark } from "./interfaces";
+import {
+	createBookSnapshot,
+	diffBookSnapshot,
+	formatSnapshotDiff,
+	rekeySnapshots,
+} from "./snapshot";
+
+describe("snapshot", async function () {
+	const testDate = new Date("2023-01-01T12:00:00Z");
+
+	function bookmark(id: string, text: string, note?: string): Bookmark {
+		return {
+			bookmarkId: id,
+			text,
+			contentId: "content1",
+			dateCreated: testDate,
+			note,
+		};
+	}
+
+	const previous = createBookSnapshot(
+		[bookmark("1", "one"), bookmark("2", "two", "note"), bookmark("3", "three")],
+		testDate,
+	);
+
+	it("records the sync date", function () {
+		chai.expect(previous.syncedAt).equal("2023-01-01T12:00:00.000Z");
+	});
+
+	it("reports nothing when the book is unchanged", function () {
+		const diff = diffBookSnapshot(previous, [
+			bookmark("1", "one"),
+			bookmark("2", "two", "note"),
+			bookmark("3", "three"),
+		]);
+
+		chai.expect(diff).deep.equal({ added: [], edited: [], deleted: [] });
+		chai.expect(formatSnapshotDiff(diff)).equal("");
+	});
+
+	it("detects new, edited and deleted bookmarks", function () {
+		const diff = diffBookSnapshot(previous, [
+			bookmark("1", "one, extended"),
+			bookmark("2", "two", "edited note"),
+			bookmark("4", "four"),
+		]);
+
+		chai.expect(diff).deep.equal({
+			added: ["4"],
+			edited: ["1", "2"],
+			deleted: ["3"],
+		});
+		chai.expect(formatSnapshotDiff(diff)).equal(
+			"1 new, 2 edited, 1 deleted since last sync",
+		);
+	});
+
+	it("omits empty categories from the summary", function () {
+		chai.expect(
+			formatSnapshotDiff({ added: ["a", "b", "c"], edited: [], deleted: ["d"] }),
+		).equal("3 new, 1 deleted since last sync");
+	});
+
+	it("moves snapshots saved by title to the VolumeID", function () {
+		const current = createBookSnapshot([bookmark("1", "one")], testDate);
+		const volumeIds = new Map([["Dune", "vol-1"], ["Emma", "vol-2"]]);
+
+		chai.expect(
+			rekeySnapshots({ Dune: previous, Emma: previous, "vol-2": current }, volumeIds),
+		).deep.equal({ "vol-1": previous, "vol-2": current });
+		const unchanged = { "vol-1": previous };
+		chai.expect(rekeySnapshots(unchanged, volumeIds)).equal(unchanged);
+	});
+});
@@ -0,0 +1,101 @@
+import { Bookmark } from "./interfaces";
+
+/**
+ * Digest of a book's bookmarks as they were in the Kobo DB at the last sync.
+ * Only hashes are kept so the plugin data stays small.
+ */
+export interface BookSnapshot {
+	syncedAt: string;
+	// BookmarkID -> digest of text and annotation
+	digests: Record<string, string>;
+}
+
+// VolumeID -> snapshot (book title for snapshots saved by older versions)
+export type ImportSnapshots = Record<string, BookSnapshot>;
+
+export interface SnapshotDiff {
+	added: string[];
+	edited: string[];
+	deleted: string[];
+}
+
+// 32-bit FNV-1a; collisions only matter per BookmarkID, so this is plenty
+function fnv1a(s: string): string {
+	let h = 0x811c9dc5;
+	for (let i = 0; i < s.length; i++) {
+		h ^= s.charCodeAt(i);
+		h = Math.imul(h, 0x01000193);
+	}
+	return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+export function digestBookmark(bookmark: Bookmark): string {
+	return fnv1a(`${bookmark.text}\u0000${bookmark.note ?? ""}`);
+}
+
+export function createBookSnapshot(
+	bookmarks: Bookmark[],
+	syncedAt: Date = new Date(),
+): BookSnapshot {
+	const digests: Record<string, string> = {};
+	for (const b of bookmarks) {
+		digests[b.bookmarkId] = digestBookmark(b);
+	}
+	return { syncedAt: syncedAt.toISOString(), digests };
+}
+
+export function diffBookSnapshot(
+	previous: BookSnapshot,
+	bookmarks: Bookmark[],
+): SnapshotDiff {
+	const diff: SnapshotDiff = { added: [], edited: [], deleted: [] };
+	const seen = new Set<string>();
+
+	for (const b of bookmarks) {
+		seen.add(b.bookmarkId);
+		const before = previous.digests[b.bookmarkId];
+		if (before === undefined) {
+			diff.added.push(b.bookmarkId);
+		} else if (before !== digestBookmark(b)) {
+			diff.edited.push(b.bookmarkId);
+		}
+	}
+
+	for (const id of Object.keys(previous.digests)) {
+		if (!seen.has(id)) diff.deleted.push(id);
+	}
+
+	return diff;
+}
+
+/**
+ * Human readable summary, e.g. "3 new, 1 edited, 2 deleted since last sync".
+ * Returns an empty string when nothing changed.
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+	const parts = [
+		diff.added.length > 0 ? `${diff.added.length} new` : "",
+		diff.edited.length > 0 ? `${diff.edited.length} edited` : "",
+		diff.deleted.length > 0 ? `${diff.deleted.length} deleted` : "",
+	].filter((p) => p.length > 0);
+
+	return parts.length > 0 ? `${parts.join(", ")} since last sync` : "";
+}
+
+/**
+ * Move snapshots saved under a book title to the book's VolumeID
+ * (see volumeIdsByTitle). A snapshot already under the VolumeID is kept.
+ * Returns the same object when nothing was moved.
+ */
+export function rekeySnapshots(
+	snapshots: ImportSnapshots,
+	volumeIds: Map<string, string>,
+): ImportSnapshots {
+	let result = snapshots;
+	for (const [title, volumeId] of volumeIds) {
+		const { [title]: legacy, ...rest } = result;
+		if (!legacy || title === volumeId) continue;
+		result = { [volumeId]: legacy, ...rest };
+	}
+	return result;
+}
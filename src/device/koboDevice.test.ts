@@ -0,0 +1,94 @@
+import * as chai from "chai";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+	defaultMountRoots,
+	findKoboDatabase,
+	KOBO_DB_RELATIVE_PATH,
+	readKoboDatabase,
+} from "./koboDevice";
+
+describe("koboDevice", async function () {
+	let tmp: string;
+
+	async function createDevice(mountDir: string, content = "sqlite") {
+		const dbPath = path.join(mountDir, KOBO_DB_RELATIVE_PATH);
+		await fs.mkdir(path.dirname(dbPath), { recursive: true });
+		await fs.writeFile(dbPath, content);
+		return dbPath;
+	}
+
+	beforeEach(async function () {
+		tmp = await fs.mkdtemp(path.join(os.tmpdir(), "kobo-device-"));
+	});
+
+	afterEach(async function () {
+		await fs.rm(tmp, { recursive: true, force: true });
+	});
+
+	it("finds the database one level below a mount root", async function () {
+		const root = path.join(tmp, "media");
+		await fs.mkdir(path.join(root, "USB STICK"), { recursive: true });
+		const dbPath = await createDevice(path.join(root, "KOBOeReader"));
+
+		chai.expect(await findKoboDatabase("", [root])).equal(dbPath);
+	});
+
+	it("finds the database directly in a mount root", async function () {
+		const dbPath = await createDevice(tmp);
+
+		chai.expect(await findKoboDatabase("", [tmp])).equal(dbPath);
+	});
+
+	it("returns null when no device is mounted", async function () {
+		await fs.mkdir(path.join(tmp, "media", "USB STICK"), { recursive: true });
+
+		chai.expect(
+			await findKoboDatabase("", [
+				path.join(tmp, "media"),
+				path.join(tmp, "does-not-exist"),
+			]),
+		).equal(null);
+	});
+
+	it("prefers the configured mount path over scanning", async function () {
+		const root = path.join(tmp, "media");
+		await createDevice(path.join(root, "KOBOeReader"));
+		const configured = path.join(tmp, "my-kobo");
+		const dbPath = await createDevice(configured);
+
+		chai.expect(await findKoboDatabase(configured, [root])).equal(dbPath);
+	});
+
+	it("accepts a configured path pointing at the sqlite file", async function () {
+		const dbPath = await createDevice(path.join(tmp, "my-kobo"));
+
+		chai.expect(await findKoboDatabase(dbPath, [])).equal(dbPath);
+	});
+
+	it("does not fall back to scanning when the configured path is missing", async function () {
+		await createDevice(path.join(tmp, "media", "KOBOeReader"));
+
+		chai.expect(
+			await findKoboDatabase(path.join(tmp, "unplugged"), [
+				path.join(tmp, "media"),
+			]),
+		).equal(null);
+	});
+
+	it("reads the database into an ArrayBuffer", async function () {
+		const dbPath = await createDevice(tmp, "abc");
+		const buffer = await readKoboDatabase(dbPath);
+
+		chai.expect(new TextDecoder().decode(buffer)).equal("abc");
+	});
+
+	it("builds per-platform mount roots", function () {
+		chai.expect(defaultMountRoots("darwin", {})).deep.equal(["/Volumes"]);
+		chai.expect(defaultMountRoots("win32", {})).to.include("E:\\");
+		chai.expect(defaultMountRoots("linux", { USER: "reader" })).to.include(
+			"/media/reader",
+		);
+	});
+});
@@ -0,0 +1,92 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+export const KOBO_DB_RELATIVE_PATH = path.join(".kobo", "KoboReader.sqlite");
+
+/**
+ * Directories under which removable drives usually get mounted.
+ * Each root is checked itself (Windows drive letters) and one level below it.
+ */
+export function defaultMountRoots(
+	platform: NodeJS.Platform = process.platform,
+	env: NodeJS.ProcessEnv = process.env,
+): string[] {
+	switch (platform) {
+		case "darwin":
+			return ["/Volumes"];
+		case "win32":
+			return "DEFGHIJKLMNOPQRSTUVWXYZ".split("").map((d) => `${d}:\\`);
+		default: {
+			const user = env.USER ?? env.LOGNAME;
+			const roots = ["/media", "/run/media", "/mnt"];
+			return user
+				? [`/media/${user}`, `/run/media/${user}`, ...roots]
+				: roots;
+		}
+	}
+}
+
+async function isFile(p: string): Promise<boolean> {
+	try {
+		return (await fs.stat(p)).isFile();
+	} catch {
+		return false;
+	}
+}
+
+async function listDirectories(p: string): Promise<string[]> {
+	try {
+		const entries = await fs.readdir(p, { withFileTypes: true });
+		return entries
+			.filter((e) => e.isDirectory())
+			.map((e) => path.join(p, e.name));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Locate KoboReader.sqlite on a mounted device.
+ *
+ * A configured mount path wins and may point either at the device root or
+ * at the sqlite file itself. Otherwise the given roots are scanned.
+ * Returns null when no device is found.
+ */
+export async function findKoboDatabase(
+	mountPath: string,
+	roots: string[] = defaultMountRoots(),
+): Promise<string | null> {
+	const configured = mountPath.trim();
+	if (configured) {
+		if (await isFile(configured)) return configured;
+
+		const candidate = path.join(configured, KOBO_DB_RELATIVE_PATH);
+		return (await isFile(candidate)) ? candidate : null;
+	}
+
+	for (const root of roots) {
+		for (const dir of [root, ...(await listDirectories(root))]) {
+			const candidate = path.join(dir, KOBO_DB_RELATIVE_PATH);
+			if (await isFile(candidate)) return candidate;
+		}
+	}
+
+	return null;
+}
+
+export async function readKoboDatabase(dbPath: string): Promise<ArrayBuffer> {
+	const buf = await fs.readFile(dbPath);
+	return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer;
+}
+
+/**
+ * A named Kobo. Highlights read from it are tagged with its name, so several
+ * devices can feed the same inbox notes.
+ */
+export interface DeviceProfile {
+	name: string;
+	// Device root or KoboReader.sqlite itself; empty scans the usual mount locations
+	mountPath: string;
+	// Where the database was last read from, shown in the settings
+	lastDbPath?: string;
+}
@@ -0,0 +1,68 @@
+import * as chai from "chai";
+import { findBookNote, noteIdentity, resolveBookNotePath, volumeIdsByTitle } from "./bookIdentity";
+
+describe("bookIdentity", async function () {
+	it("reads the identity of inbox notes only", function () {
+		chai.expect(noteIdentity("a.md", { kobo_volume_id: "vol-1", isbn: "123" })).deep.equal({
+			path: "a.md",
+			volumeId: "vol-1",
+			isbn: undefined,
+		});
+		chai.expect(noteIdentity("b.md", { isbn: 9780000000000, kobo_stats: {} })).deep.equal({
+			path: "b.md",
+			volumeId: undefined,
+			isbn: "9780000000000",
+		});
+		// A book note of the user's own, not written by the plugin
+		chai.expect(noteIdentity("c.md", { isbn: "123" })).equal(null);
+		chai.expect(noteIdentity("d.md", undefined)).equal(null);
+	});
+
+	it("finds a note by VolumeID, then by ISBN", function () {
+		const notes = [
+			{ path: "moved/Renamed.md", volumeId: "vol-1" },
+			{ path: "inbox/Older.md", isbn: "111" },
+			{ path: "inbox/Other edition.md", volumeId: "vol-9", isbn: "222" },
+		];
+
+		chai.expect(findBookNote(notes, { volumeId: "vol-1", isbn: "111" })).equal(
+			"moved/Renamed.md",
+		);
+		chai.expect(findBookNote(notes, { volumeId: "vol-2", isbn: "111" })).equal("inbox/Older.md");
+		chai.expect(findBookNote(notes, { volumeId: "vol-3", isbn: "222" })).equal(null);
+		chai.expect(findBookNote(notes, {})).equal(null);
+	});
+
+	it("never falls back to the note of another edition", function () {
+		const notes = [
+			{ path: "inbox/Dune.md", volumeId: "vol-1" },
+			{ path: "inbox/Dune 2.md", volumeId: "vol-2" },
+			{ path: "inbox/Emma.md", isbn: "111" },
+		];
+
+		chai.expect(resolveBookNotePath(notes, { volumeId: "vol-2" }, "inbox/Dune.md")).equal(
+			"inbox/Dune 2.md",
+		);
+		chai.expect(resolveBookNotePath(notes, { volumeId: "vol-3" }, "inbox/Dune.md")).equal(
+			"inbox/Dune 3.md",
+		);
+		// A note without identity, or an older one without VolumeID, is taken over
+		chai.expect(resolveBookNotePath(notes, { volumeId: "vol-4" }, "inbox/Plain.md")).equal(
+			"inbox/Plain.md",
+		);
+		chai.expect(
+			resolveBookNotePath(notes, { volumeId: "vol-5", isbn: "222" }, "inbox/Emma.md"),
+		).equal("inbox/Emma 2.md");
+	});
+
+	it("maps titles to VolumeIDs unless several books share them", function () {
+		chai.expect(
+			volumeIdsByTitle([
+				{ title: "Dune", volumeId: "vol-1" },
+				{ title: "Dune", volumeId: "vol-2" },
+				{ title: "Emma", volumeId: "vol-3" },
+				{ title: "Emma", volumeId: "vol-3" },
+			]),
+		).deep.equal(new Map([["Emma", "vol-3"]]));
+	});
+});
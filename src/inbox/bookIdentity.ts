@@ -0,0 +1,111 @@
+import { BookDetails, BookRef } from "../database/interfaces";
+
+// Frontmatter key holding the Kobo VolumeID of the book an inbox note is for
+export const VOLUME_ID_KEY = "kobo_volume_id";
+
+// What identifies the book of a note, read from its frontmatter
+export interface NoteIdentity {
+	path: string;
+	volumeId?: string;
+	isbn?: string;
+}
+
+function nonEmpty(value: unknown): string | undefined {
+	if (typeof value !== "string" && typeof value !== "number") return undefined;
+	const s = String(value).trim();
+	return s.length > 0 ? s : undefined;
+}
+
+/**
+ * Identity of an inbox note, or null for notes that are not inbox notes.
+ * An ISBN alone only counts on notes the plugin wrote (`kobo_stats`), so
+ * other book notes in the vault are never taken for inbox notes.
+ */
+export function noteIdentity(
+	path: string,
+	frontmatter: Record<string, unknown> | undefined,
+): NoteIdentity | null {
+	if (!frontmatter) return null;
+
+	const volumeId = nonEmpty(frontmatter[VOLUME_ID_KEY]);
+	const isbn = "kobo_stats" in frontmatter ? nonEmpty(frontmatter.isbn) : undefined;
+	if (!volumeId && !isbn) return null;
+
+	return { path, volumeId, isbn };
+}
+
+/**
+ * Path of the note for a book: matched by VolumeID first, then by ISBN.
+ * Returns null when no note carries the book's identity; callers then
+ * fall back to the note named after the title.
+ */
+export function findBookNote(
+	notes: NoteIdentity[],
+	book: Pick<BookDetails, "volumeId" | "isbn">,
+): string | null {
+	const volumeId = nonEmpty(book.volumeId);
+	if (volumeId) {
+		const byVolume = notes.find((n) => n.volumeId === volumeId);
+		if (byVolume) return byVolume.path;
+	}
+
+	const isbn = nonEmpty(book.isbn);
+	if (isbn) {
+		// A note with another VolumeID is for another copy of the book
+		const byIsbn = notes.find((n) => n.isbn === isbn && (!volumeId || !n.volumeId));
+		if (byIsbn) return byIsbn.path;
+	}
+
+	return null;
+}
+
+// True when the note carries the identity of another book
+function belongsToOtherBook(
+	note: NoteIdentity,
+	book: Pick<BookDetails, "volumeId" | "isbn">,
+): boolean {
+	const volumeId = nonEmpty(book.volumeId);
+	if (note.volumeId && volumeId) return note.volumeId !== volumeId;
+
+	const isbn = nonEmpty(book.isbn);
+	return Boolean(note.isbn && isbn && note.isbn !== isbn);
+}
+
+/**
+ * Path of the note for a book: the one carrying its identity, else
+ * `defaultPath` ("Title.md"), else "Title 2.md", "Title 3.md", ... whichever
+ * comes first that is not the note of another book, such as another edition
+ * with the same title.
+ */
+export function resolveBookNotePath(
+	notes: NoteIdentity[],
+	book: Pick<BookDetails, "volumeId" | "isbn">,
+	defaultPath: string,
+): string {
+	const found = findBookNote(notes, book);
+	if (found) return found;
+
+	const base = defaultPath.replace(/\.md$/i, "");
+	for (let n = 1; ; n++) {
+		const candidate = n === 1 ? defaultPath : `${base} ${n}.md`;
+		const note = notes.find((i) => i.path === candidate);
+		if (!note || !belongsToOtherBook(note, book)) return candidate;
+	}
+}
+
+/**
+ * Title -> VolumeID of the given books, without titles that several books
+ * share. Used to move data saved by title, before books were told apart by
+ * VolumeID, to the book it belongs to.
+ */
+export function volumeIdsByTitle(books: BookRef[]): Map<string, string> {
+	const ids = new Map<string, string>();
+	const shared = new Set<string>();
+	for (const { title, volumeId } of books) {
+		const known = ids.get(title);
+		if (known !== undefined && known !== volumeId) shared.add(title);
+		ids.set(title, volumeId);
+	}
+	shared.forEach((title) => ids.delete(title));
+	return ids;
+}
@@ -0,0 +1,118 @@
+import * as chai from "chai";
+import {
+	createExtractionJournal,
+	isEmptyJournal,
+	removeAppendedSource,
+	removeAppendedSources,
+	revertMemoChanges,
+} from "./extractionJournal";
+import { RESET_MEMO_LINE } from "./memo";
+
+describe("extractionJournal", async function () {
+	const before = [
+		"> first",
+		"",
+		"- [x] memo:: first thought",
+		"",
+		"> second",
+		"",
+		"- [x] memo:: second thought",
+		"  continued",
+	].join("\n");
+
+	const after = [
+		"> first",
+		"",
+		RESET_MEMO_LINE,
+		"- insight:: [[kobo-insights/first thought]]",
+		"",
+		"> second",
+		"",
+		"- ~~memo:: second thought~~",
+		"  continued",
+		"- insight:: [[kobo-insights/second thought]]",
+	].join("\n");
+
+	const changes = [
+		{
+			memoLines: ["- [x] memo:: second thought", "  continued"],
+			processedLines: ["- ~~memo:: second thought~~", "  continued"],
+			insightLine: "- insight:: [[kobo-insights/second thought]]",
+		},
+		{
+			memoLines: ["- [x] memo:: first thought"],
+			processedLines: [RESET_MEMO_LINE],
+			insightLine: "- insight:: [[kobo-insights/first thought]]",
+		},
+	];
+
+	it("restores memo lines and removes inserted insight links", function () {
+		chai.expect(revertMemoChanges(after, changes)).deep.equal({
+			content: before,
+			restored: 2,
+			missing: 0,
+		});
+	});
+
+	it("keeps edits made after the extraction", function () {
+		const edited = after
+			.replace("> second", "> second\n\n## My notes")
+			.replace("- insight:: [[kobo-insights/first thought]]", "- insight:: [[renamed]]");
+
+		const result = revertMemoChanges(edited, changes);
+
+		chai.expect(result.restored).equal(1);
+		chai.expect(result.missing).equal(1);
+		chai.expect(result.content).contains("## My notes\n\n- [x] memo:: second thought\n  continued");
+		chai.expect(result.content).contains(`${RESET_MEMO_LINE}\n- insight:: [[renamed]]`);
+	});
+
+	it("pairs memos linking to the same combined note with their own lines", function () {
+		const insightLine = "- insight:: [[kobo-insights/both]]";
+		const combined = [
+			"> first",
+			RESET_MEMO_LINE,
+			insightLine,
+			"> second",
+			RESET_MEMO_LINE,
+			insightLine,
+		].join("\n");
+
+		const result = revertMemoChanges(combined, [
+			{ memoLines: ["- [x] memo:: b"], processedLines: [RESET_MEMO_LINE], insightLine },
+			{ memoLines: ["- [x] memo:: a"], processedLines: [RESET_MEMO_LINE], insightLine },
+		]);
+
+		chai.expect(result.content).equal("> first\n- [x] memo:: a\n> second\n- [x] memo:: b");
+	});
+
+	it("removes an appended source only while it is still at the end", function () {
+		const appended = "\n> [!quote] Additional source\n> quote\n";
+
+		chai.expect(removeAppendedSource(`# Note\n${appended}`, appended)).equal("# Note\n");
+		chai.expect(removeAppendedSource(`# Note\n${appended}more`, appended)).equal(null);
+	});
+
+	it("removes several sources appended to one note, the last one first", function () {
+		const first = "\n> [!quote] Additional source\n> first\n";
+		const second = "\n> [!quote] Additional source\n> second\n";
+
+		chai.expect(removeAppendedSources(`# Note\n${first}${second}`, [first, second])).deep.equal({
+			content: "# Note\n",
+			kept: 0,
+		});
+		chai.expect(removeAppendedSources(`# Note\n${first}edited${second}`, [first, second])).deep.equal({
+			content: `# Note\n${first}edited`,
+			kept: 1,
+		});
+	});
+
+	it("treats a run without changes as empty", function () {
+		const journal = createExtractionJournal(new Date("2023-01-01T12:00:00Z"));
+
+		chai.expect(journal.runAt).equal("2023-01-01T12:00:00.000Z");
+		chai.expect(isEmptyJournal(journal)).equal(true);
+		journal.inboxes.push({ path: "inbox.md", changes });
+		chai.expect(isEmptyJournal(journal)).equal(false);
+	});
+});
@@ -0,0 +1,110 @@
+// A checked memo that was processed and got an insight:: line inserted below it
+export interface MemoChange {
+	memoLines: string[];
+	processedLines: string[];
+	insightLine: string;
+}
+
+export interface InboxJournal {
+	path: string;
+	changes: MemoChange[];
+}
+
+// mtime is recorded right after creation so later edits can be detected
+export interface CreatedInsight {
+	path: string;
+	mtime: number;
+}
+
+// Quote appended to an insight note that already existed
+export interface AppendedSource {
+	path: string;
+	text: string;
+}
+
+/**
+ * Everything one extraction run changed, so it can be undone.
+ * Only the most recent run is kept.
+ */
+export interface ExtractionJournal {
+	runAt: string;
+	inboxes: InboxJournal[];
+	created: CreatedInsight[];
+	appended: AppendedSource[];
+}
+
+export function createExtractionJournal(runAt: Date = new Date()): ExtractionJournal {
+	return { runAt: runAt.toISOString(), inboxes: [], created: [], appended: [] };
+}
+
+export function isEmptyJournal(journal: ExtractionJournal): boolean {
+	return (
+		journal.created.length === 0 &&
+		journal.appended.length === 0 &&
+		journal.inboxes.every((i) => i.changes.length === 0)
+	);
+}
+
+/**
+ * Remove an appended source from the end of a note. Returns null when the
+ * note no longer ends with it, i.e. the user has edited it since.
+ */
+export function removeAppendedSource(content: string, text: string): string | null {
+	return content.endsWith(text) ? content.slice(0, content.length - text.length) : null;
+}
+
+/**
+ * Remove the sources appended to one note in a run, given in the order they
+ * were appended. The last one is removed first, as it sits at the end.
+ * `kept` counts the sources left in place because the note was edited since.
+ */
+export function removeAppendedSources(
+	content: string,
+	texts: string[],
+): { content: string; kept: number } {
+	let kept = 0;
+	for (const text of [...texts].reverse()) {
+		const reverted = removeAppendedSource(content, text);
+		if (reverted === null) {
+			kept++;
+			continue;
+		}
+		content = reverted;
+	}
+	return { content, kept };
+}
+
+/**
+ * Put the original memo lines back and drop the insight:: lines inserted by
+ * an extraction. Changes whose lines can no longer be found (edited or
+ * removed by the user since) are left alone and counted as missing.
+ */
+export function revertMemoChanges(
+	content: string,
+	changes: MemoChange[],
+): { content: string; restored: number; missing: number } {
+	const lines = content.split("\n");
+	let restored = 0;
+
+	// Changes are journaled bottom-up; searching from the end keeps several
+	// memos linking to the same (combined) note paired with their own lines.
+	for (const change of changes) {
+		const size = change.processedLines.length;
+		let index = -1;
+		for (let i = lines.length - 1; i >= size; i--) {
+			if (
+				lines[i] === change.insightLine &&
+				change.processedLines.every((p, k) => lines[i - size + k] === p)
+			) {
+				index = i;
+				break;
+			}
+		}
+		if (index === -1) continue;
+
+		lines.splice(index - size, size + 1, ...change.memoLines);
+		restored++;
+	}
+
+	return { content: lines.join("\n"), restored, missing: changes.length - restored };
+}
@@ -0,0 +1,382 @@
+import * as chai from "chai";
+import { Bookmark } from "../database/interfaces";
+import {
+	ARCHIVE_HEADING,
+	handleDeletedHighlights,
+	highlightMeta,
+	highlightMetaMarker,
+	insertBlocksByChapter,
+	presentInNote,
+	UNTITLED_CHAPTER,
+	updateHighlightBlocks,
+} from "./highlightBlock";
+import { parseMetaLine } from "./inboxNote";
+
+describe("highlightBlock", async function () {
+	const testDate = new Date("2023-01-01T12:00:00Z");
+
+	function bookmark(id: string, text: string, note?: string): Bookmark {
+		return {
+			bookmarkId: id,
+			text,
+			contentId: "content1",
+			dateCreated: testDate,
+			note,
+		};
+	}
+
+	// Built from an array so the "> " spacer lines keep their trailing space
+	const note = [
+		"# Book",
+		"",
+		"---",
+		"> [!quote]- My own title",
+		"> <!-- id: abc-1 -->",
+		"> old text",
+		"> ",
+		"",
+		"📝: old note",
+		"",
+		"- [ ] memo:: my thought",
+		"- insight:: [[kobo-insights/Thought]]",
+		"",
+		"---",
+		"> [!quote]- second...",
+		"> <!-- id: abc-2 -->",
+		"> second text",
+		"> ",
+		"",
+		"- [ ] memo:: ",
+	].join("\n");
+
+	it("leaves unchanged blocks alone", function () {
+		const result = updateHighlightBlocks(note, [
+			bookmark("abc-1", "old text", "old note"),
+			bookmark("abc-2", "second   text"),
+		]);
+
+		chai.expect(result.updates).deep.equal([]);
+		chai.expect(result.content).equal(note);
+	});
+
+	it("rewrites the quote but keeps title, memo and insight lines", function () {
+		const result = updateHighlightBlocks(note, [
+			bookmark("abc-1", "old text, now extended", "old note"),
+		]);
+
+		chai.expect(result.updates).deep.equal([
+			{
+				bookmarkId: "abc-1",
+				title: "My own title",
+				textChanged: true,
+				annotationChanged: false,
+			},
+		]);
+		chai.expect(result.content).equal(
+			note.replace("> old text\n", "> old text, now extended\n"),
+		);
+	});
+
+	it("updates an edited annotation", function () {
+		const result = updateHighlightBlocks(note, [
+			bookmark("abc-1", "old text", "new note"),
+		]);
+
+		chai.expect(result.updates[0].annotationChanged).equal(true);
+		chai.expect(result.content).equal(note.replace("📝: old note", "📝: new note"));
+	});
+
+	it("adds an annotation written after the last sync", function () {
+		const result = updateHighlightBlocks(note, [
+			bookmark("abc-2", "second text", "fresh note"),
+		]);
+
+		chai.expect(result.content).equal(
+			note.replace(
+				"> second text\n> \n\n- [ ] memo:: ",
+				"> second text\n> \n\n📝: fresh note\n\n- [ ] memo:: ",
+			),
+		);
+	});
+
+	it("removes an annotation deleted on the device", function () {
+		const result = updateHighlightBlocks(note, [bookmark("abc-1", "old text")]);
+
+		chai.expect(result.content).equal(note.replace("📝: old note\n\n", ""));
+	});
+
+	it("keeps a multi-paragraph annotation in one piece", function () {
+		const annotated = [bookmark("abc-1", "old text", "para1\n\npara2")];
+		const first = updateHighlightBlocks(note, annotated);
+		const second = updateHighlightBlocks(first.content, annotated);
+
+		chai.expect(first.content).equal(note.replace("📝: old note", "📝: para1\npara2"));
+		chai.expect(second.updates).deep.equal([]);
+		chai.expect(second.content).equal(first.content);
+	});
+
+	it("does not match an id mentioned in user text", function () {
+		const text = [
+			"> [!quote]- quote",
+			"> <!-- id: real -->",
+			"> text",
+			"> ",
+			"",
+			"- [ ] memo:: see id: abc-1",
+		].join("\n");
+		const result = updateHighlightBlocks(text, [bookmark("abc-1", "other")]);
+
+		chai.expect(result.updates).deep.equal([]);
+	});
+
+	describe("deleted on device", function () {
+		it("reports orphans but leaves the note alone by default", function () {
+			const result = handleDeletedHighlights(note, new Set(["abc-1"]), "leave");
+
+			chai.expect(result.orphaned).deep.equal(["abc-2"]);
+			chai.expect(result.changed).deep.equal([]);
+			chai.expect(result.content).equal(note);
+		});
+
+		it("tags orphaned blocks once", function () {
+			const result = handleDeletedHighlights(note, new Set(["abc-1"]), "tag");
+			const expected = note.replace(
+				"> [!quote]- second...",
+				"> [!quote]- second... #deleted-on-device",
+			);
+
+			chai.expect(result.changed).deep.equal(["abc-2"]);
+			chai.expect(result.content).equal(expected);
+			chai.expect(
+				handleDeletedHighlights(expected, new Set(["abc-1"]), "tag").content,
+			).equal(expected);
+		});
+
+		it("tags blocks without a callout on a line of their own", function () {
+			const plain = ["# Book", "", "---", "> <!-- id: abc-3 -->", "> plain text", "> ", "", "- [ ] memo:: "].join("\n");
+			const result = handleDeletedHighlights(plain, new Set(), "tag");
+
+			chai.expect(result.changed).deep.equal(["abc-3"]);
+			chai.expect(result.content).contains("> <!-- id: abc-3 -->\n> plain text\n> \n\n#deleted-on-device\n");
+			chai.expect(handleDeletedHighlights(result.content, new Set(), "tag").content).equal(result.content);
+			chai.expect(handleDeletedHighlights(result.content, new Set(), "leave").orphaned).deep.equal(["abc-3"]);
+		});
+
+		it("never touches blocks with an insight link", function () {
+			const result = handleDeletedHighlights(note, new Set(), "tag");
+
+			chai.expect(result.orphaned).deep.equal(["abc-1", "abc-2"]);
+			chai.expect(result.changed).deep.equal(["abc-2"]);
+			chai.expect(result.content).contains("> [!quote]- My own title\n");
+		});
+
+		it("only checks blocks of the loaded devices", function () {
+			const fromKitchen = note.replace(
+				"> <!-- id: abc-2 -->",
+				'> <!-- id: abc-2 -->\n> <!-- meta: {"device":"Kitchen"} -->',
+			);
+
+			chai.expect(
+				handleDeletedHighlights(fromKitchen, new Set(), "tag", new Set(["Office"])).orphaned,
+			).deep.equal([]);
+			chai.expect(
+				handleDeletedHighlights(fromKitchen, new Set(), "tag", new Set(["Kitchen"])).changed,
+			).deep.equal(["abc-2"]);
+			// Blocks imported without a device belong to a hand-picked file
+			chai.expect(
+				handleDeletedHighlights(note, new Set(), "leave", new Set([""])).orphaned,
+			).deep.equal(["abc-1", "abc-2"]);
+		});
+
+		it("moves orphaned blocks to the archive section", function () {
+			const first = [
+				"---",
+				"> [!quote]- first...",
+				"> <!-- id: abc-0 -->",
+				"> first text",
+				"> ",
+				"",
+				"- [ ] memo:: ",
+			].join("\n");
+			const withFirst = note.replace("# Book\n\n", `# Book\n\n${first}\n\n`);
+
+			const result = handleDeletedHighlights(withFirst, new Set(["abc-1", "abc-2"]), "archive");
+
+			chai.expect(result.changed).deep.equal(["abc-0"]);
+			chai.expect(result.content).equal(
+				note +
+					"\n\n" +
+					ARCHIVE_HEADING +
+					"\n\n" +
+					first.replace("first...", "first... #deleted-on-device") +
+					"\n",
+			);
+			chai.expect(
+				handleDeletedHighlights(result.content, new Set(["abc-1", "abc-2"]), "archive").changed,
+			).deep.equal([]);
+		});
+	});
+
+	describe("chapter sections", function () {
+		function block(id: string, chapter: string) {
+			return { bookmarkId: id, chapter, text: `---\n> <!-- id: ${id} -->\n> ${id}` };
+		}
+
+		const order: [string, string[]][] = [
+			["Chapter 1", ["a", "b", "c"]],
+			["Chapter 2", ["d"]],
+			["Chapter 3", ["e"]],
+		];
+		const header = "---\ntitle: x\n---\n\n# Book\n";
+
+		it("creates chapter sections in reading order", function () {
+			const result = insertBlocksByChapter(
+				header,
+				[block("e", "Chapter 3"), block("b", "Chapter 1"), block("a", "Chapter 1")],
+				order,
+			);
+
+			chai.expect(result).equal(
+				[
+					"---",
+					"title: x",
+					"---",
+					"",
+					"# Book",
+					"",
+					"## Chapter 1",
+					"",
+					"---",
+					"> <!-- id: a -->",
+					"> a",
+					"",
+					"---",
+					"> <!-- id: b -->",
+					"> b",
+					"",
+					"## Chapter 3",
+					"",
+					"---",
+					"> <!-- id: e -->",
+					"> e",
+				].join("\n"),
+			);
+		});
+
+		it("inserts into existing sections and between existing chapters", function () {
+			const existing = insertBlocksByChapter(
+				header,
+				[block("a", "Chapter 1"), block("c", "Chapter 1"), block("e", "Chapter 3")],
+				order,
+			);
+			const result = insertBlocksByChapter(
+				existing,
+				[block("d", "Chapter 2"), block("b", "Chapter 1")],
+				order,
+			);
+
+			chai.expect(result).equal(
+				insertBlocksByChapter(
+					header,
+					["a", "b", "c"].map((id) => block(id, "Chapter 1"))
+						.concat([block("d", "Chapter 2"), block("e", "Chapter 3")]),
+					order,
+				),
+			);
+			chai.expect(result.indexOf("## Chapter 2")).lessThan(result.indexOf("## Chapter 3"));
+			chai.expect(result.indexOf("id: b")).lessThan(result.indexOf("id: c"));
+		});
+
+		it("keeps new chapters above the archive section", function () {
+			const archived = `${header}\n${ARCHIVE_HEADING}\n\n---\nold`;
+			const result = insertBlocksByChapter(archived, [block("d", "Chapter 2")], order);
+
+			chai.expect(result).equal(
+				`${header}\n## Chapter 2\n\n---\n> <!-- id: d -->\n> d\n\n${ARCHIVE_HEADING}\n\n---\nold`,
+			);
+		});
+
+		it("appends chapters missing from the order", function () {
+			const result = insertBlocksByChapter(header, [block("x", "Appendix")], order);
+
+			chai.expect(result).equal(`${header}\n## Appendix\n\n---\n> <!-- id: x -->\n> x`);
+		});
+
+		it("files highlights without a chapter title under a fallback heading", function () {
+			const once = insertBlocksByChapter(header, [block("x", " ")], [[" ", ["x", "y"]]]);
+			const twice = insertBlocksByChapter(once, [block("y", "")], [["", ["x", "y"]]]);
+
+			chai.expect(twice).equal(
+				`${header}\n## ${UNTITLED_CHAPTER}\n\n---\n> <!-- id: x -->\n> x\n\n---\n> <!-- id: y -->\n> y`,
+			);
+		});
+	});
+
+	it("finds highlights already in the note by id, or by quote from another device", function () {
+		const fromKitchen = note.replace(
+			"> <!-- id: abc-2 -->",
+			'> <!-- id: abc-2 -->\n> <!-- meta: {"device":"Kitchen","chapter":"Chapter 1"} -->',
+		);
+		const chapters = (bookmarks: Bookmark[]) => new Map([["Chapter 1", bookmarks]]);
+
+		chai.expect(
+			presentInNote(
+				fromKitchen,
+				chapters([
+					bookmark("abc-1", "something else"),
+					{ ...bookmark("other-device", "second  text"), device: "Office" },
+					bookmark("new", "brand new"),
+				]),
+			),
+		).deep.equal(new Set(["abc-1", "other-device"]));
+		// The same passage highlighted twice on one device is two highlights
+		chai.expect(
+			presentInNote(fromKitchen, chapters([{ ...bookmark("b", "second text"), device: "Kitchen" }])),
+		).deep.equal(new Set());
+		// ...and so is the same text in another chapter
+		chai.expect(
+			presentInNote(fromKitchen, new Map([["Chapter 2", [bookmark("c", "second text")]]])),
+		).deep.equal(new Set());
+	});
+
+	describe("metadata", function () {
+		const rich: Bookmark = {
+			...bookmark("abc-1", "old text", "old note"),
+			chapterProgress: 0.123456,
+			dateModified: new Date("2023-01-02T08:00:00Z"),
+			color: 2,
+		};
+
+		it("collects chapter, progress, dates and color", function () {
+			chai.expect(highlightMeta(rich, " Chapter <1> ")).deep.equal({
+				chapter: "Chapter <1>",
+				progress: 0.1235,
+				created: "2023-01-01T12:00:00.000Z",
+				annotated: "2023-01-02T08:00:00.000Z",
+				color: "blue",
+			});
+			chai.expect(highlightMeta({ ...rich, device: "Kitchen" }, "").device).equal("Kitchen");
+		});
+
+		it("round-trips through the hidden comment", function () {
+			const meta = highlightMeta(rich, "Intro --> part");
+			const marker = highlightMetaMarker(meta);
+
+			chai.expect(marker.indexOf("-->")).equal(marker.length - 3);
+			chai.expect(parseMetaLine(marker)).deep.equal(meta);
+			chai.expect(parseMetaLine("> <!-- id: abc-1 -->")).equal(null);
+		});
+
+		it("leaves the metadata comment out of quote updates", function () {
+			const marker = highlightMetaMarker(highlightMeta(rich, "Chapter 1"));
+			const withMeta = note.replace("> <!-- id: abc-1 -->", `> <!-- id: abc-1 -->\n${marker}`);
+
+			chai.expect(
+				updateHighlightBlocks(withMeta, [bookmark("abc-1", "old text", "old note")]).updates,
+			).deep.equal([]);
+			chai.expect(
+				updateHighlightBlocks(withMeta, [bookmark("abc-1", "new text", "old note")]).content,
+			).equal(withMeta.replace("> old text", "> new text"));
+		});
+	});
+});
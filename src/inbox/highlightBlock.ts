@@ -0,0 +1,380 @@
+import { chapter } from "../database/Highlight";
+import { highlightTextKey } from "../database/deviceMerge";
+import { Bookmark, HIGHLIGHT_COLORS } from "../database/interfaces";
+import {
+	ANNOTATION_PREFIX,
+	CALLOUT_LINE,
+	HighlightBlock,
+	HighlightMeta,
+	parseInboxLines,
+	parseInboxNote,
+} from "./inboxNote";
+
+export interface BlockUpdate {
+	bookmarkId: string;
+	// Callout title of the block, used to tell the user what changed
+	title: string;
+	textChanged: boolean;
+	annotationChanged: boolean;
+}
+
+function collapse(s: string): string {
+	return s.replace(/\s+/g, " ").trim();
+}
+
+// The annotation as written after ANNOTATION_PREFIX, without the blank
+// lines that would end it early in the note
+export function annotationText(note: string): string {
+	return note
+		.split(/\r?\n/)
+		.filter((line) => line.trim() !== "")
+		.join("\n");
+}
+
+export function quoteLines(text: string): string[] {
+	return text
+		.trim()
+		.split("\n")
+		.map((line) => `> ${line}`);
+}
+
+export const DELETED_ON_DEVICE_TAG = "#deleted-on-device";
+export const ARCHIVE_HEADING = "## Deleted on device";
+
+export type DeletedHighlightPolicy = "leave" | "tag" | "archive";
+
+export function highlightIdMarker(bookmarkId: string): string {
+	return `> <!-- id: ${bookmarkId} -->`;
+}
+
+function isoDate(d: Date | undefined): string | undefined {
+	return d && !isNaN(d.getTime()) ? d.toISOString() : undefined;
+}
+
+export function highlightMeta(bookmark: Bookmark, chapter: string): HighlightMeta {
+	return {
+		chapter: chapter.trim() || undefined,
+		progress:
+			bookmark.chapterProgress == null
+				? undefined
+				: Math.round(bookmark.chapterProgress * 10000) / 10000,
+		created: isoDate(bookmark.dateCreated),
+		annotated: bookmark.note ? isoDate(bookmark.dateModified) : undefined,
+		color:
+			bookmark.color == null
+				? undefined
+				: HIGHLIGHT_COLORS[bookmark.color],
+		...(bookmark.device ? { device: bookmark.device } : {}),
+	};
+}
+
+export function highlightMetaMarker(meta: HighlightMeta): string {
+	// Escape ">" so a chapter title can never close the comment early
+	return `> <!-- meta: ${JSON.stringify(meta).replace(/>/g, "\\u003e")} -->`;
+}
+
+function findBlock(lines: string[], bookmarkId: string): HighlightBlock | undefined {
+	return parseInboxLines(lines).blocks.find((b) => b.bookmarkId === bookmarkId);
+}
+
+/**
+ * Bring the quote and annotation of existing blocks in line with the Kobo DB.
+ * Only the quoted text and the annotation line are rewritten; the callout
+ * title, memo:: lines and insight:: links are left as they are.
+ */
+export function updateHighlightBlocks(
+	content: string,
+	bookmarks: Bookmark[],
+): { content: string; updates: BlockUpdate[] } {
+	const lines = content.split("\n");
+	const updates: BlockUpdate[] = [];
+
+	for (const bookmark of bookmarks) {
+		const block = findBlock(lines, bookmark.bookmarkId);
+		if (!block) continue;
+
+		const { title, bodyStart, quoteEnd } = block;
+		const annotationStart = block.annotation?.start ?? -1;
+		const annotationEnd = block.annotation?.end ?? -1;
+		const currentAnnotation = block.annotation?.text ?? "";
+
+		const annotation = annotationText(bookmark.note ?? "");
+		const textChanged = collapse(block.quote) !== collapse(bookmark.text);
+		const annotationChanged = collapse(currentAnnotation) !== collapse(annotation);
+		if (!textChanged && !annotationChanged) continue;
+
+		// Annotation first: it sits below the quote, so quote edits don't shift it
+		if (annotationChanged) {
+			const annotationLines = annotation
+				? `${ANNOTATION_PREFIX} ${annotation.trim()}`.split("\n")
+				: [];
+
+			if (annotationStart >= 0) {
+				// Drop the blank line that separated a removed annotation
+				const removeCount =
+					annotationEnd - annotationStart +
+					(annotationLines.length === 0 && lines[annotationEnd]?.trim() === "" ? 1 : 0);
+				lines.splice(annotationStart, removeCount, ...annotationLines);
+			} else if (lines[quoteEnd]?.trim() === "") {
+				lines.splice(quoteEnd + 1, 0, ...annotationLines, "");
+			} else {
+				lines.splice(quoteEnd, 0, "", ...annotationLines);
+			}
+		}
+
+		if (textChanged) {
+			lines.splice(bodyStart, quoteEnd - bodyStart, ...quoteLines(bookmark.text), "> ");
+		}
+
+		updates.push({
+			bookmarkId: bookmark.bookmarkId,
+			title,
+			textChanged,
+			annotationChanged,
+		});
+	}
+
+	return { content: lines.join("\n"), updates };
+}
+
+function isTagged(lines: string[], block: HighlightBlock): boolean {
+	if (CALLOUT_LINE.test(lines[block.titleIndex])) {
+		return lines[block.titleIndex].includes(DELETED_ON_DEVICE_TAG);
+	}
+	return lines.slice(block.quoteEnd, block.end).some((l) => l.trim() === DELETED_ON_DEVICE_TAG);
+}
+
+/**
+ * Tag the callout title, or, for blocks without a callout, add the tag on
+ * its own line below the quote: appended to the id line it would hide the
+ * BookmarkID. Returns the number of lines added.
+ */
+function tagBlock(lines: string[], block: HighlightBlock): number {
+	if (isTagged(lines, block)) return 0;
+
+	const title = lines[block.titleIndex];
+	if (CALLOUT_LINE.test(title)) {
+		lines[block.titleIndex] = `${title.trimEnd()} ${DELETED_ON_DEVICE_TAG}`;
+		return 0;
+	}
+	lines.splice(block.quoteEnd, 0, "", DELETED_ON_DEVICE_TAG);
+	return 2;
+}
+
+function trimBlankEnd(lines: string[]): string[] {
+	let end = lines.length;
+	while (end > 0 && lines[end - 1].trim() === "") end--;
+	return lines.slice(0, end);
+}
+
+/**
+ * BookmarkIDs of a book's highlights that already have a block in the note,
+ * either under their own id or, for a highlight another device imported
+ * first, as that device's block with the same chapter and quote. Blocks of
+ * the same device never match by text: the same passage can be highlighted
+ * twice.
+ */
+export function presentInNote(content: string, chapters: Map<chapter, Bookmark[]>): Set<string> {
+	const { blocks } = parseInboxNote(content);
+	const ids = new Set(blocks.map((b) => b.bookmarkId));
+	// text key -> devices whose block has that text
+	const devicesByText = new Map<string, Set<string>>();
+	for (const block of blocks) {
+		const key = highlightTextKey(block.meta.chapter ?? "", block.quote);
+		const devices = devicesByText.get(key) ?? new Set<string>();
+		devices.add(block.meta.device ?? "");
+		devicesByText.set(key, devices);
+	}
+
+	const present = new Set<string>();
+	for (const [chapterName, bookmarks] of chapters) {
+		for (const b of bookmarks) {
+			const devices = devicesByText.get(highlightTextKey(chapterName, b.text));
+			const fromOtherDevice =
+				devices !== undefined && Array.from(devices).some((d) => d !== (b.device ?? ""));
+			if (ids.has(b.bookmarkId) || fromOtherDevice) present.add(b.bookmarkId);
+		}
+	}
+	return present;
+}
+
+/**
+ * Apply the deleted-highlight policy to blocks whose BookmarkID is no longer
+ * in the Kobo DB. Blocks that already carry an insight:: link are never touched.
+ * With `devices`, only blocks imported from those devices are checked
+ * (`""` stands for blocks without a device), so highlights of a device
+ * that is not loaded are not taken for deleted.
+ */
+export function handleDeletedHighlights(
+	content: string,
+	knownIds: Set<string>,
+	policy: DeletedHighlightPolicy,
+	devices?: Set<string>,
+): { content: string; orphaned: string[]; changed: string[] } {
+	const orphaned = parseInboxNote(content)
+		.blocks.filter((b) => !devices || devices.has(b.meta.device ?? ""))
+		.map((b) => b.bookmarkId)
+		.filter((id): id is string => id !== undefined && !knownIds.has(id));
+	const changed: string[] = [];
+	if (policy === "leave" || orphaned.length === 0) {
+		return { content, orphaned, changed };
+	}
+
+	let lines = content.split("\n");
+	const archived: string[][] = [];
+
+	for (const id of orphaned) {
+		const block = findBlock(lines, id);
+		if (!block || block.insightLinks.length > 0) continue;
+
+		if (policy === "tag") {
+			if (!isTagged(lines, block)) {
+				tagBlock(lines, block);
+				changed.push(id);
+			}
+			continue;
+		}
+
+		const archiveIndex = lines.indexOf(ARCHIVE_HEADING);
+		if (archiveIndex >= 0 && block.idIndex > archiveIndex) continue;
+
+		const end = block.end + tagBlock(lines, block);
+		archived.push(trimBlankEnd(lines.slice(block.start, end)));
+		lines.splice(block.start, end - block.start);
+		changed.push(id);
+	}
+
+	if (archived.length > 0) {
+		lines = trimBlankEnd(lines);
+		if (!lines.includes(ARCHIVE_HEADING)) {
+			lines.push("", ARCHIVE_HEADING);
+		}
+		for (const block of archived) {
+			lines.push("", ...block);
+		}
+		lines.push("");
+	}
+
+	return { content: lines.join("\n"), orphaned, changed };
+}
+
+export interface NewBlock {
+	bookmarkId: string;
+	chapter: string;
+	// Rendered block, starting with its "---" separator
+	text: string;
+}
+
+// Chapter name -> BookmarkIDs, both in reading order
+export type ChapterOrder = [string, string[]][];
+
+const CHAPTER_HEADING = /^##\s+(.+?)\s*$/;
+
+// Heading for highlights whose chapter has no title: "## " alone is no heading
+export const UNTITLED_CHAPTER = "Untitled chapter";
+
+function chapterTitle(chapter: string): string {
+	return chapter.trim() || UNTITLED_CHAPTER;
+}
+
+export function chapterHeading(chapter: string): string {
+	return `## ${chapterTitle(chapter)}`;
+}
+
+/**
+ * Insert a chunk of lines at a position, leaving exactly one blank line
+ * between it and its neighbours.
+ */
+function insertChunk(lines: string[], at: number, chunk: string[]) {
+	let start = at;
+	while (start > 0 && lines[start - 1].trim() === "") start--;
+	let end = at;
+	while (end < lines.length && lines[end].trim() === "") end++;
+
+	lines.splice(
+		start,
+		end - start,
+		...(start > 0 ? [""] : []),
+		...chunk,
+		...(end < lines.length ? [""] : []),
+	);
+}
+
+// The archive section (if any) is where chapters stop
+function contentEnd(lines: string[]): number {
+	const archiveIndex = lines.indexOf(ARCHIVE_HEADING);
+	return archiveIndex < 0 ? lines.length : archiveIndex;
+}
+
+function findChapterSection(lines: string[], chapter: string): { heading: number; end: number } | null {
+	const limit = contentEnd(lines);
+	const name = chapterTitle(chapter);
+
+	const heading = lines.findIndex((l, i) => i < limit && CHAPTER_HEADING.exec(l)?.[1] === name);
+	if (heading < 0) return null;
+
+	let end = heading + 1;
+	while (end < limit && !/^#{1,2}\s/.test(lines[end])) end++;
+	return { heading, end };
+}
+
+/**
+ * Add new blocks under their chapter heading. Chapters are created in reading
+ * order, and blocks land next to their neighbours within the chapter, so the
+ * note keeps the order of the book no matter when a highlight was synced.
+ */
+export function insertBlocksByChapter(
+	content: string,
+	blocks: NewBlock[],
+	chapterOrder: ChapterOrder,
+): string {
+	const lines = content.split("\n");
+
+	// Chapters unknown to the order go last, in the order they were given
+	const order: ChapterOrder = chapterOrder.map(([c, ids]) => [c, [...ids]]);
+	for (const block of blocks) {
+		const known = order.find(([c]) => c.trim() === block.chapter.trim());
+		if (known) {
+			if (!known[1].includes(block.bookmarkId)) known[1].push(block.bookmarkId);
+		} else {
+			order.push([block.chapter, [block.bookmarkId]]);
+		}
+	}
+	const chapters = order.map(([chapter]) => chapter.trim());
+
+	for (const [chapter, ids] of order) {
+		const chapterBlocks = blocks
+			.filter((b) => b.chapter.trim() === chapter.trim())
+			.sort((a, b) => ids.indexOf(a.bookmarkId) - ids.indexOf(b.bookmarkId));
+		if (chapterBlocks.length === 0) continue;
+
+		if (!findChapterSection(lines, chapter)) {
+			// Open the chapter before the next chapter already in the note
+			const later = chapters
+				.slice(chapters.indexOf(chapter.trim()) + 1)
+				.map((c) => findChapterSection(lines, c))
+				.find((section) => section !== null);
+			insertChunk(lines, later ? later.heading : contentEnd(lines), [chapterHeading(chapter)]);
+		}
+
+		for (const block of chapterBlocks) {
+			const section = findChapterSection(lines, chapter);
+			if (!section) break;
+
+			// Before the first block of this chapter that comes later in the book
+			const position = ids.indexOf(block.bookmarkId);
+			const later = parseInboxLines(lines).blocks.find(
+				(b) =>
+					b.start > section.heading &&
+					b.start < section.end &&
+					b.bookmarkId !== undefined &&
+					ids.indexOf(b.bookmarkId) > position,
+			);
+			const at = later ? later.start : section.end;
+
+			insertChunk(lines, at, block.text.split("\n"));
+		}
+	}
+
+	return lines.join("\n");
+}
@@ -0,0 +1,168 @@
+import * as chai from "chai";
+import {
+	computeInboxStats,
+	insightLinkTargets,
+	listBlockIds,
+	memoInsertionIndex,
+	parseInboxNote,
+	renameInsightLinks,
+	serializeInboxNote,
+} from "./inboxNote";
+
+describe("inboxNote", async function () {
+	// Built from an array so the "> " spacer lines keep their trailing space
+	const note = [
+		"---",
+		"title: Book",
+		"---",
+		"",
+		"# Book",
+		"",
+		"```kobo-inboxer",
+		"```",
+		"",
+		"## Chapter 1",
+		"",
+		"---",
+		"> [!quote]- My own title",
+		"> <!-- id: abc-1 -->",
+		'> <!-- meta: {"chapter":"Chapter 1","progress":0.5} -->',
+		"> first line",
+		"> second line",
+		"> ",
+		"",
+		"📝: the annotation",
+		"",
+		"- [x] memo:: see id: hijack for details",
+		"  continued",
+		"- insight:: [[kobo-insights/Thought|alias]]",
+		"- [ ] memo:: ",
+		"",
+		"---",
+		"> [!quote]- second...",
+		"> <!-- id: abc-2 -->",
+		"> second text",
+		"> ",
+		"",
+		"- ~~memo:: done thought~~",
+		"- insight:: [[kobo-insights/Other]]",
+		"",
+		"## Deleted on device",
+		"",
+		"---",
+		"> <!-- id: abc-3 -->",
+		"> no callout",
+	].join("\n");
+
+	const parsed = parseInboxNote(note);
+
+	it("serializes back to the exact input", function () {
+		chai.expect(serializeInboxNote(parsed)).equal(note);
+		chai.expect(serializeInboxNote(parseInboxNote(""))).equal("");
+		chai.expect(serializeInboxNote(parseInboxNote("# Title\n\ntext\n"))).equal("# Title\n\ntext\n");
+	});
+
+	it("keeps frontmatter, title and code block in the header", function () {
+		chai.expect(parsed.header).deep.equal(note.split("\n").slice(0, 9));
+		chai.expect(parsed.parts.map((p) => p.kind)).deep.equal([
+			"text",
+			"block",
+			"block",
+			"text",
+			"block",
+		]);
+	});
+
+	it("reads id, title, meta, quote and annotation", function () {
+		const [first] = parsed.blocks;
+
+		chai.expect(first.bookmarkId).equal("abc-1");
+		chai.expect(first.title).equal("My own title");
+		chai.expect(first.meta).deep.equal({ chapter: "Chapter 1", progress: 0.5 });
+		chai.expect(first.quote).equal("first line\nsecond line");
+		chai.expect(first.annotation?.text).equal(" the annotation");
+	});
+
+	it("reads memos and insight links", function () {
+		const [first, second] = parsed.blocks;
+
+		chai.expect(first.memos.map((m) => [m.index, m.checked, m.text])).deep.equal([
+			[21, true, "see id: hijack for details\ncontinued"],
+			[24, false, ""],
+		]);
+		chai.expect(first.insightLinks).deep.equal([{ index: 23, target: "kobo-insights/Thought" }]);
+		chai.expect(second.memos[0].text).equal("done thought");
+	});
+
+	it("never takes a BookmarkID from user text", function () {
+		chai.expect(listBlockIds(note)).deep.equal(["abc-1", "abc-2", "abc-3"]);
+		chai.expect(listBlockIds("> [!quote]- x\n> text\n\n- [ ] memo:: id: abc")).deep.equal([]);
+	});
+
+	it("handles blocks without a callout", function () {
+		const last = parsed.blocks[2];
+
+		chai.expect(last.titleIndex).equal(last.idIndex);
+		chai.expect(last.title).equal("");
+		chai.expect(last.quote).equal("no callout");
+	});
+
+	it("computes the stats cached in frontmatter", function () {
+		chai.expect(computeInboxStats(note)).deep.equal({
+			highlights_total: 3,
+			insights_created: 2,
+		});
+	});
+
+	it("lists insight link targets", function () {
+		chai.expect(insightLinkTargets(note)).deep.equal(["kobo-insights/Thought", "kobo-insights/Other"]);
+	});
+
+	it("renames insight links by path or name, keeping the alias", function () {
+		const renamed = renameInsightLinks(
+			note,
+			["kobo-insights/Thought", "Thought"],
+			"archive/Better thought",
+		);
+		const lines = renamed?.split("\n") ?? [];
+
+		chai.expect(lines[23]).equal("- insight:: [[archive/Better thought|alias]]");
+		chai.expect(lines[33]).equal("- insight:: [[kobo-insights/Other]]");
+		chai.expect(
+			renameInsightLinks("> <!-- id: x -->\n> q\n\n- insight:: [[Thought]]", ["Thought"], "New"),
+		).equal("> <!-- id: x -->\n> q\n\n- insight:: [[New]]");
+		chai.expect(renameInsightLinks(note, ["Missing"], "New")).equal(null);
+	});
+
+	it("adds further memos after the block's last memo or insight line", function () {
+		const note = [
+			"# Book",
+			"",
+			"---",
+			"> [!quote]- first",
+			"> <!-- id: a -->",
+			"> text",
+			"> ",
+			"",
+			"- [ ] memo:: one",
+			"  continued",
+			"- insight:: [[x]]",
+			"",
+			"---",
+			"> [!quote]- second",
+			"> text",
+		];
+
+		chai.expect(memoInsertionIndex(note, 5)).equal(11);
+		chai.expect(memoInsertionIndex(note, 8)).equal(11);
+		chai.expect(memoInsertionIndex(note, 14)).equal(null);
+		chai.expect(memoInsertionIndex(note, 0)).equal(null);
+	});
+
+	it("adds further memos to blocks without a callout", function () {
+		const plain = ["# Book", "", "> <!-- id: a -->", "> text", "> ", "", "- [ ] memo:: one", ""];
+
+		chai.expect(memoInsertionIndex(plain, 3)).equal(7);
+		chai.expect(memoInsertionIndex(plain, 0)).equal(null);
+	});
+});
@@ -0,0 +1,326 @@
+import { Memo, readMemo } from "./memo";
+
+/**
+ * Reader for the intermediate (inbox) note format:
+ *
+ *   ---
+ *   > [!quote]- title
+ *   > <!-- id: BookmarkID -->
+ *   > <!-- meta: {...} -->
+ *   > quoted text
+ *   >
+ *
+ *   📝: annotation
+ *
+ *   - [ ] memo:: thought
+ *   - insight:: [[path]]
+ *
+ * The model keeps every line of the note, so serializing it gives back the
+ * exact input; the typed fields are views on those lines.
+ */
+
+export const ANNOTATION_PREFIX = "📝:";
+export const INSIGHT_LINK_PREFIX = "insight::";
+
+export const ID_LINE = /^>\s*<!--\s*id:\s*([A-Za-z0-9_-]+)\s*-->\s*$/;
+const META_LINE = /^>\s*<!--\s*meta:\s*(\{.*\})\s*-->\s*$/;
+const COMMENT_LINE = /^>\s*<!--.*-->\s*$/;
+export const CALLOUT_LINE = /^>\s*\[!quote\]/;
+const HEADING_LINE = /^#{1,6}\s/;
+const MEMO_LINE = /^\s*-\s*(?:\[[ xX]\]|~~memo::)/;
+const STRUCK_LINE = /^\s*-\s*~~/;
+const CHECKED_LINE = /^\s*-\s*\[[xX]\]/;
+const INSIGHT_LINE = /^\s*-\s*insight::\s*\[\[(.+?)\]\]/;
+
+/**
+ * Per-highlight details kept in a hidden comment below the id marker,
+ * so insights can be sorted and cited precisely later on.
+ */
+export interface HighlightMeta {
+	chapter?: string;
+	// Position within the chapter, 0 to 1
+	progress?: number;
+	// ISO timestamps
+	created?: string;
+	annotated?: string;
+	color?: string;
+	// Device profile the highlight was first imported from
+	device?: string;
+}
+
+export function parseMetaLine(line: string): HighlightMeta | null {
+	const m = META_LINE.exec(line);
+	if (!m) return null;
+
+	try {
+		const meta: unknown = JSON.parse(m[1]);
+		return typeof meta === "object" && meta !== null ? (meta as HighlightMeta) : null;
+	} catch {
+		return null;
+	}
+}
+
+export interface InboxMemo extends Memo {
+	// Line index of the memo's first line in the note
+	index: number;
+	checked: boolean;
+	// Kept struck through after its insight note was created
+	struck: boolean;
+}
+
+export interface InsightLink {
+	index: number;
+	// Link path as written, without alias or heading
+	target: string;
+}
+
+export interface TextPart {
+	kind: "text";
+	// Line index of the first line in the note
+	start: number;
+	lines: string[];
+}
+
+/**
+ * One highlight. All indexes are line indexes in the whole note;
+ * ranges are half-open.
+ */
+export interface HighlightBlock {
+	kind: "block";
+	start: number;
+	lines: string[];
+	// Callout line, or the id line for templates without a callout
+	titleIndex: number;
+	title: string;
+	// -1 when the block has no id marker
+	idIndex: number;
+	bookmarkId?: string;
+	meta: HighlightMeta;
+	// First quoted line, after the callout and the comments
+	bodyStart: number;
+	// First line after the quoted text
+	quoteEnd: number;
+	quote: string;
+	annotation?: { start: number; end: number; text: string };
+	memos: InboxMemo[];
+	insightLinks: InsightLink[];
+	// First line after the block
+	end: number;
+}
+
+export type InboxPart = TextPart | HighlightBlock;
+
+export interface InboxNote {
+	// Frontmatter, title and anything else before the first block or chapter
+	header: string[];
+	parts: InboxPart[];
+	blocks: HighlightBlock[];
+}
+
+function isSeparator(line: string): boolean {
+	return line.trim() === "---";
+}
+
+function isBlockStart(lines: string[], i: number): boolean {
+	return (
+		(isSeparator(lines[i]) && (lines[i + 1] ?? "").startsWith(">")) ||
+		CALLOUT_LINE.test(lines[i]) ||
+		ID_LINE.test(lines[i])
+	);
+}
+
+function headerEnd(lines: string[]): number {
+	let i = 0;
+	// Skip the frontmatter, whose fences look like block separators
+	if (lines[0] === "---") {
+		const close = lines.indexOf("---", 1);
+		i = close < 0 ? lines.length : close + 1;
+	}
+	while (i < lines.length && !isBlockStart(lines, i) && !/^#{2,6}\s/.test(lines[i])) {
+		i++;
+	}
+	return i;
+}
+
+function parseBlock(lines: string[], start: number): HighlightBlock {
+	const first = isSeparator(lines[start]) ? start + 1 : start;
+
+	let quoteEnd = first;
+	while (quoteEnd < lines.length && lines[quoteEnd].startsWith(">")) quoteEnd++;
+
+	let idIndex = -1;
+	let meta: HighlightMeta = {};
+	for (let i = first; i < quoteEnd; i++) {
+		if (idIndex < 0 && ID_LINE.test(lines[i])) idIndex = i;
+		meta = parseMetaLine(lines[i]) ?? meta;
+	}
+
+	const hasCallout = CALLOUT_LINE.test(lines[first] ?? "");
+	const titleIndex = hasCallout ? first : idIndex;
+	let bodyStart = hasCallout ? first + 1 : first;
+	while (bodyStart < quoteEnd && COMMENT_LINE.test(lines[bodyStart])) bodyStart++;
+
+	// The block ends at the next separator, callout or heading
+	let end = quoteEnd;
+	while (
+		end < lines.length &&
+		!isSeparator(lines[end]) &&
+		!CALLOUT_LINE.test(lines[end]) &&
+		!HEADING_LINE.test(lines[end])
+	) {
+		end++;
+	}
+
+	let annotation: HighlightBlock["annotation"];
+	const memos: InboxMemo[] = [];
+	const insightLinks: InsightLink[] = [];
+	for (let i = quoteEnd; i < end; i++) {
+		const line = lines[i];
+		if (!annotation && line.startsWith(ANNOTATION_PREFIX)) {
+			let annotationEnd = i + 1;
+			while (annotationEnd < end && lines[annotationEnd].trim() !== "") annotationEnd++;
+			annotation = {
+				start: i,
+				end: annotationEnd,
+				text: lines.slice(i, annotationEnd).join("\n").slice(ANNOTATION_PREFIX.length),
+			};
+			i = annotationEnd - 1;
+		} else if (MEMO_LINE.test(line)) {
+			const memo = readMemo(lines.slice(0, end), i);
+			memos.push({
+				...memo,
+				index: i,
+				checked: CHECKED_LINE.test(line),
+				struck: STRUCK_LINE.test(line),
+			});
+			i += memo.lines.length - 1;
+		} else {
+			const link = INSIGHT_LINE.exec(line);
+			if (link) insightLinks.push({ index: i, target: link[1].split(/[|#]/)[0].trim() });
+		}
+	}
+
+	return {
+		kind: "block",
+		start,
+		lines: lines.slice(start, end),
+		titleIndex,
+		title:
+			titleIndex >= 0 && hasCallout
+				? lines[titleIndex].replace(/^>\s*\[!quote\][+-]?\s*/, "").trim()
+				: "",
+		idIndex,
+		bookmarkId: idIndex >= 0 ? ID_LINE.exec(lines[idIndex])?.[1] : undefined,
+		meta,
+		bodyStart,
+		quoteEnd,
+		quote: lines
+			.slice(bodyStart, quoteEnd)
+			.map((l) => l.replace(/^>\s?/, ""))
+			.join("\n")
+			.trimEnd(),
+		annotation,
+		memos,
+		insightLinks,
+		end,
+	};
+}
+
+export function parseInboxLines(lines: string[]): InboxNote {
+	const headerLength = headerEnd(lines);
+	const parts: InboxPart[] = [];
+	const blocks: HighlightBlock[] = [];
+
+	let i = headerLength;
+	while (i < lines.length) {
+		if (isBlockStart(lines, i)) {
+			const block = parseBlock(lines, i);
+			parts.push(block);
+			blocks.push(block);
+			i = block.end;
+			continue;
+		}
+
+		const start = i;
+		do i++;
+		while (i < lines.length && !isBlockStart(lines, i));
+		parts.push({ kind: "text", start, lines: lines.slice(start, i) });
+	}
+
+	return { header: lines.slice(0, headerLength), parts, blocks };
+}
+
+export function parseInboxNote(content: string): InboxNote {
+	return parseInboxLines(content.split("\n"));
+}
+
+export function serializeInboxNote(note: InboxNote): string {
+	return [...note.header, ...note.parts.flatMap((p) => p.lines)].join("\n");
+}
+
+/**
+ * Where another memo line for the highlight around `cursor` goes: right
+ * after the block's last memo or insight line (and its continuation lines).
+ * Returns null when the cursor is not inside a block with a memo.
+ */
+export function memoInsertionIndex(lines: string[], cursor: number): number | null {
+	const line = Math.min(cursor, lines.length - 1);
+	const block = parseInboxLines(lines).blocks.find((b) => b.start <= line && line < b.end);
+	if (!block) return null;
+
+	const ends = [
+		...block.memos.map((m) => m.index + m.lines.length),
+		...block.insightLinks.map((l) => l.index + 1),
+	];
+	return ends.length > 0 ? Math.max(...ends) : null;
+}
+
+export function listBlockIds(content: string): string[] {
+	return parseInboxNote(content)
+		.blocks.map((b) => b.bookmarkId)
+		.filter((id): id is string => id !== undefined);
+}
+
+export interface InboxStats {
+	highlights_total: number;
+	insights_created: number;
+}
+
+export function computeInboxStats(content: string): InboxStats {
+	const { blocks } = parseInboxNote(content);
+	return {
+		highlights_total: blocks.length,
+		insights_created: blocks.reduce((n, b) => n + b.insightLinks.length, 0),
+	};
+}
+
+export function insightLinkTargets(content: string): string[] {
+	return parseInboxNote(content).blocks.flatMap((b) => b.insightLinks.map((l) => l.target));
+}
+
+/**
+ * Point insight:: links at a renamed note. `oldTargets` are the ways the old
+ * note may be linked (full path or basename, without ".md"); aliases and
+ * headings are kept. Returns null when nothing links to the old note.
+ */
+export function renameInsightLinks(
+	content: string,
+	oldTargets: string[],
+	newTarget: string,
+): string | null {
+	const lines = content.split("\n");
+	let changed = false;
+
+	for (const block of parseInboxLines(lines).blocks) {
+		for (const link of block.insightLinks) {
+			if (!oldTargets.includes(link.target)) continue;
+			lines[link.index] = lines[link.index].replace(
+				/\[\[[^\]|#]+/,
+				() => `[[${newTarget}`,
+			);
+			changed = true;
+		}
+	}
+
+	return changed ? lines.join("\n") : null;
+}
@@ -0,0 +1,46 @@
+import * as chai from "chai";
+import { candidateFromSource, combineCandidates, InsightSource } from "./insightCandidate";
+import { readMemo } from "./memo";
+
+describe("insightCandidate", async function () {
+	function source(lineIndex: number, memoLine: string, quote: string): InsightSource {
+		return {
+			lineIndex,
+			memo: readMemo([memoLine], 0),
+			quote,
+			bookmarkId: `id-${lineIndex}`,
+			meta: {},
+		};
+	}
+
+	it("builds a single-source candidate from the memo", function () {
+		chai.expect(candidateFromSource(source(3, "- [x] memo:: idea", "q"), "insights")).deep.equal({
+			sources: [source(3, "- [x] memo:: idea", "q")],
+			title: "idea",
+			body: "",
+			folder: "insights",
+		});
+	});
+
+	it("combines highlights in note order under the first written memo", function () {
+		const combined = combineCandidates([
+			candidateFromSource(source(20, "- [x] memo:: ", "second"), "b"),
+			candidateFromSource(source(10, "- [x] memo:: the idea", "first"), "a"),
+		]);
+
+		chai.expect(combined.sources.map((s) => s.quote)).deep.equal(["first", "second"]);
+		chai.expect(combined.title).equal("the idea");
+		chai.expect(combined.body).equal("");
+		chai.expect(combined.folder).equal("a");
+	});
+
+	it("keeps every memo when several were written", function () {
+		const combined = combineCandidates([
+			candidateFromSource(source(1, "- [x] memo:: one", "q1"), "f"),
+			candidateFromSource(source(2, "- [x] memo:: two", "q2"), "f"),
+		]);
+
+		chai.expect(combined.title).equal("one");
+		chai.expect(combined.body).equal("one\n\ntwo");
+	});
+});
@@ -0,0 +1,48 @@
+import { HighlightMeta } from "./inboxNote";
+import { Memo, splitMemo } from "./memo";
+
+// One checked memo and the highlight it sits under
+export interface InsightSource {
+	lineIndex: number;
+	// the memo lines as read, to detect edits made while the preview was open
+	memo: Memo;
+	quote: string;
+	bookmarkId: string;
+	meta: HighlightMeta;
+}
+
+/**
+ * An insight note about to be created. Usually one memo under one highlight;
+ * combined candidates quote several highlights in one note.
+ */
+export interface InsightCandidate {
+	sources: InsightSource[];
+	title: string;
+	// full memo text when it is too long for the title
+	body: string;
+	folder: string;
+}
+
+export function candidateFromSource(source: InsightSource, folder: string): InsightCandidate {
+	return { sources: [source], ...splitMemo(source.memo.text), folder };
+}
+
+/**
+ * Merge candidates into one note quoting all their highlights in note order.
+ * The first non-empty title wins; with several written memos, all of them
+ * become the body.
+ */
+export function combineCandidates(candidates: InsightCandidate[]): InsightCandidate {
+	const sources = candidates
+		.flatMap((c) => c.sources)
+		.sort((a, b) => a.lineIndex - b.lineIndex);
+	const memos = sources.map((s) => s.memo.text).filter((t) => t.length > 0);
+	const first = candidates.find((c) => c.title.trim().length > 0) ?? candidates[0];
+
+	return {
+		sources,
+		title: first.title,
+		body: memos.length > 1 ? memos.join("\n\n") : first.body,
+		folder: first.folder,
+	};
+}
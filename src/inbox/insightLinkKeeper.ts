@@ -0,0 +1,136 @@
+import { App, TAbstractFile, TFile } from "obsidian";
+import KoboHighlightPickerAndInboxer from "src/main";
+import { parseInboxNote, renameInsightLinks } from "./inboxNote";
+
+function linkPath(path: string): string {
+	return path.replace(/\.md$/i, "");
+}
+
+function basename(path: string): string {
+	return linkPath(path).split("/").pop() ?? "";
+}
+
+/**
+ * Keeps both ends of an insight consistent when notes are renamed, moved or
+ * deleted: insight:: lines in inbox notes, and the `book` / `bookmark`
+ * fields of insight notes.
+ */
+export class InsightLinkKeeper {
+	private app: App;
+	private plugin: KoboHighlightPickerAndInboxer;
+
+	constructor(app: App, plugin: KoboHighlightPickerAndInboxer) {
+		this.app = app;
+		this.plugin = plugin;
+	}
+
+	async onRename(file: TAbstractFile, oldPath: string): Promise<void> {
+		if (!(file instanceof TFile) || file.extension !== "md") return;
+
+		// Obsidian may already have updated the links; then nothing matches
+		const oldTargets = [linkPath(oldPath), basename(oldPath)];
+		for (const inbox of this.plugin.inboxNotes()) {
+			const content = await this.app.vault.cachedRead(inbox);
+			if (!renameInsightLinks(content, oldTargets, linkPath(file.path))) continue;
+
+			await this.app.vault.process(
+				inbox,
+				(current) => renameInsightLinks(current, oldTargets, linkPath(file.path)) ?? current,
+			);
+		}
+
+		if (this.plugin.isInboxNote(oldPath) || this.plugin.isInboxNote(file.path)) {
+			await this.renameBookFields(basename(oldPath), file.basename);
+		}
+	}
+
+	// Insight notes cite their book as `book: "[[<inbox note name>]]"`
+	private async renameBookFields(oldName: string, newName: string): Promise<void> {
+		if (oldName === newName) return;
+
+		for (const note of this.app.vault.getMarkdownFiles()) {
+			const book: unknown = this.app.metadataCache.getFileCache(note)?.frontmatter?.book;
+			if (book !== `[[${oldName}]]`) continue;
+
+			await this.app.fileManager.processFrontMatter(note, (fm) => {
+				fm.book = `[[${newName}]]`;
+			});
+		}
+	}
+
+	async onDelete(file: TAbstractFile): Promise<void> {
+		if (!(file instanceof TFile) || file.extension !== "md" || this.plugin.isInboxNote(file.path)) return;
+
+		// Links to the deleted note are kept, but show up as dangling in the stats
+		const targets = [linkPath(file.path), file.basename];
+		for (const inbox of this.plugin.inboxNotes()) {
+			const content = await this.app.vault.cachedRead(inbox);
+			const links = parseInboxNote(content).blocks.flatMap((b) => b.insightLinks);
+			if (links.some((l) => targets.includes(l.target))) {
+				await this.plugin.updateIntermediateNoteStats(inbox);
+			}
+		}
+	}
+
+	/**
+	 * Walk every inbox note: re-point insight:: links whose note was moved,
+	 * fill in missing or broken `book` / `bookmark` fields, and refresh the
+	 * stats. Links whose note is gone for good are counted as dangling.
+	 */
+	async repairAll(): Promise<{ relinked: number; fields: number; dangling: number }> {
+		const result = { relinked: 0, fields: 0, dangling: 0 };
+
+		for (const inbox of this.plugin.inboxNotes()) {
+			const content = await this.app.vault.read(inbox);
+			const relinks: { from: string; to: string }[] = [];
+
+			for (const block of parseInboxNote(content).blocks) {
+				for (const link of block.insightLinks) {
+					let dest = this.app.metadataCache.getFirstLinkpathDest(link.target, inbox.path);
+
+					if (!dest) {
+						// Moved outside of Obsidian: look the note up by its name
+						dest = this.app.metadataCache.getFirstLinkpathDest(basename(link.target), inbox.path);
+						if (!dest) {
+							result.dangling++;
+							continue;
+						}
+						relinks.push({ from: link.target, to: linkPath(dest.path) });
+						result.relinked++;
+					}
+
+					if (await this.repairFields(dest, inbox, block.bookmarkId)) result.fields++;
+				}
+			}
+
+			if (relinks.length > 0) {
+				// Applied to the note as it is now, in case it was edited meanwhile
+				await this.app.vault.process(inbox, (data) =>
+					relinks.reduce(
+						(text, { from, to }) => renameInsightLinks(text, [from], to) ?? text,
+						data,
+					),
+				);
+			}
+			await this.plugin.updateIntermediateNoteStats(inbox);
+		}
+
+		return result;
+	}
+
+	private async repairFields(note: TFile, inbox: TFile, bookmarkId?: string): Promise<boolean> {
+		const fm = this.app.metadataCache.getFileCache(note)?.frontmatter;
+		const book: unknown = fm?.book;
+		const bookName = typeof book === "string" ? book.replace(/^\[\[|\]\]$/g, "") : "";
+		const bookMissing =
+			!bookName || !this.app.metadataCache.getFirstLinkpathDest(bookName, note.path);
+		const bookmarkMissing = bookmarkId !== undefined && !fm?.bookmark;
+		if (!bookMissing && !bookmarkMissing) return false;
+
+		await this.app.fileManager.processFrontMatter(note, (frontmatter) => {
+			if (bookMissing) frontmatter.book = `[[${inbox.basename}]]`;
+			if (bookmarkMissing) frontmatter.bookmark = bookmarkId;
+		});
+		return true;
+	}
+}
@@ -0,0 +1,69 @@
+import * as chai from "chai";
+import {
+	isProcessedMemo,
+	MAX_TITLE_LENGTH,
+	processedMemoLines,
+	readMemo,
+	RESET_MEMO_LINE,
+	splitMemo,
+} from "./memo";
+
+describe("memo", async function () {
+	const lines = [
+		"> quote",
+		"",
+		"- [x] memo:: First line.",
+		"  second line",
+		"\tthird line",
+		"- insight:: [[x]]",
+	];
+
+	it("reads indented continuation lines", function () {
+		chai.expect(readMemo(lines, 2)).deep.equal({
+			lines: lines.slice(2, 5),
+			text: "First line.\nsecond line\nthird line",
+		});
+		chai.expect(readMemo(["- [x] _ memo:: only"], 0).text).equal("only");
+	});
+
+	it("keeps short memos as the title only", function () {
+		chai.expect(splitMemo(" A thought ")).deep.equal({ title: "A thought", body: "" });
+	});
+
+	it("uses the first line as title of a multi-line memo", function () {
+		chai.expect(splitMemo("Title here\nmore detail")).deep.equal({
+			title: "Title here",
+			body: "Title here\nmore detail",
+		});
+	});
+
+	it("uses the first sentence as title of a long memo", function () {
+		const memo = `Short first sentence. ${"word ".repeat(30)}`.trim();
+
+		chai.expect(splitMemo(memo)).deep.equal({ title: "Short first sentence.", body: memo });
+		chai.expect(splitMemo(`最初の文。${"あ".repeat(100)}`).title).equal("最初の文。");
+	});
+
+	it("shortens a long memo without sentences at a word boundary", function () {
+		const title = splitMemo("word ".repeat(40)).title;
+
+		chai.expect(title.length).lessThan(MAX_TITLE_LENGTH + 2);
+		chai.expect(title.endsWith("word…")).equal(true);
+	});
+
+	it("turns a processed memo into the configured record", function () {
+		const memo = readMemo(lines, 2);
+
+		chai.expect(processedMemoLines(memo, "clear", "2023-01-01")).deep.equal([RESET_MEMO_LINE]);
+		chai.expect(processedMemoLines(memo, "strike", "2023-01-01")).deep.equal([
+			"- ~~memo:: First line.~~",
+			"  second line",
+			"\tthird line",
+		]);
+
+		const done = processedMemoLines(memo, "done", "2023-01-01");
+		chai.expect(done[0]).equal("- [x] memo:: First line. ✅ 2023-01-01");
+		chai.expect(isProcessedMemo(done[0])).equal(true);
+		chai.expect(isProcessedMemo(lines[2])).equal(false);
+	});
+});
@@ -0,0 +1,93 @@
+// What a processed memo line is reset to when the memo is not kept
+export const RESET_MEMO_LINE = "- [ ] memo:: ";
+
+// Longer memos are shortened for the title and kept in full as the note body
+export const MAX_TITLE_LENGTH = 80;
+
+/**
+ * What happens to a memo once its insight note exists:
+ * "clear" resets it to an empty memo, "strike" keeps it struck through,
+ * "done" keeps it checked with a completion date.
+ */
+export type ProcessedMemoStyle = "clear" | "strike" | "done";
+
+const MEMO_PREFIX = /^\s*-\s*(?:\[[ x]\]\s*)?(?:~~)?(?:_\s*)?(?:memo::\s*)?/i;
+const STRUCK_MEMO = /^\s*-\s*~~/;
+const DONE_MARKER = /\s✅ \d{4}-\d{2}-\d{2}\s*$/;
+
+export interface Memo {
+	// the checked line plus its indented continuation lines
+	lines: string[];
+	text: string;
+}
+
+/**
+ * Read the memo starting at a memo line. Indented lines right below it
+ * belong to the same list item and continue the memo.
+ */
+export function readMemo(lines: string[], index: number): Memo {
+	const memoLines = [lines[index]];
+	for (let i = index + 1; i < lines.length && /^\s+\S/.test(lines[i]); i++) {
+		memoLines.push(lines[i]);
+	}
+
+	let first = lines[index].replace(MEMO_PREFIX, "");
+	if (STRUCK_MEMO.test(lines[index])) first = first.replace(/~~\s*$/, "");
+
+	const text = [first, ...memoLines.slice(1)]
+		.map((l) => l.trim())
+		.join("\n")
+		.trim();
+
+	return { lines: memoLines, text };
+}
+
+// Memos kept with the "done" style stay checked; the date tells them apart
+export function isProcessedMemo(line: string): boolean {
+	return DONE_MARKER.test(line);
+}
+
+/**
+ * Title and body of the insight note for a memo. Short one-line memos are
+ * just the title; otherwise the first sentence (or a shortened first line)
+ * becomes the title and the whole memo the body.
+ */
+export function splitMemo(memo: string): { title: string; body: string } {
+	const text = memo.trim();
+	const lines = text.split("\n");
+
+	if (lines.length === 1 && text.length <= MAX_TITLE_LENGTH) {
+		return { title: text, body: "" };
+	}
+
+	return { title: shortenTitle(lines[0].trim()), body: text };
+}
+
+function shortenTitle(line: string): string {
+	if (line.length <= MAX_TITLE_LENGTH) return line;
+
+	const sentence = line.match(/^.+?(?:[。！？]|[.!?](?=\s|$))/)?.[0];
+	if (sentence && sentence.length <= MAX_TITLE_LENGTH) return sentence;
+
+	const cut = line.slice(0, MAX_TITLE_LENGTH);
+	const space = cut.lastIndexOf(" ");
+	return (space > MAX_TITLE_LENGTH / 2 ? cut.slice(0, space) : cut).trimEnd() + "…";
+}
+
+/**
+ * What the memo lines turn into once the insight note exists.
+ * `date` is YYYY-MM-DD and only used by the "done" style.
+ */
+export function processedMemoLines(memo: Memo, style: ProcessedMemoStyle, date: string): string[] {
+	const [first, ...rest] = memo.lines;
+	const firstText = first.replace(MEMO_PREFIX, "").trim();
+
+	switch (style) {
+		case "strike":
+			return [`- ~~memo:: ${firstText}~~`, ...rest];
+		case "done":
+			return [`- [x] memo:: ${firstText} ✅ ${date}`, ...rest];
+		default:
+			return [RESET_MEMO_LINE];
+	}
+}
@@ -1,5 +1,42 @@
 import { addIcon, Notice, normalizePath, Plugin, TFile } from "obsidian";
+import { BOOK_OVERVIEW_VIEW_TYPE, BookOverviewView } from "./dashboard/BookOverviewView";
+import { DatabaseSource } from "./database/deviceMerge";
+import { DeviceProfile, findKoboDatabase, readKoboDatabase } from "./device/koboDevice";
 import { ExtractHighlightsModal } from "./modal/ExtractHighlightsModal";
+import {
+  createExtractionJournal,
+  ExtractionJournal,
+  InboxJournal,
+  isEmptyJournal,
+  removeAppendedSources,
+  revertMemoChanges,
+} from "./inbox/extractionJournal";
+import {
+  computeInboxStats,
+  INSIGHT_LINK_PREFIX,
+  insightLinkTargets,
+  memoInsertionIndex,
+  parseInboxLines,
+} from "./inbox/inboxNote";
+import { InsightLinkKeeper } from "./inbox/insightLinkKeeper";
+import { noteIdentity } from "./inbox/bookIdentity";
+import { candidateFromSource, InsightCandidate, InsightSource } from "./inbox/insightCandidate";
+import {
+  isProcessedMemo,
+  processedMemoLines,
+  RESET_MEMO_LINE,
+} from "./inbox/memo";
+import { IgnoredHighlightsModal } from "./modal/IgnoredHighlightsModal";
+import { InsightCollisionModal } from "./modal/InsightCollisionModal";
+import { InsightPreviewModal } from "./modal/InsightPreviewModal";
+import { InsightReport, InsightReportModal } from "./modal/InsightReportModal";
+import {
+  defaultInsightNoteTemplate,
+  InsightNoteData,
+  renderAdditionalSource,
+  renderInsightNote,
+} from "./template/template";
+import { getTemplateContents } from "./template/templateContents";
 import {
   DEFAULT_SETTINGS,
   KoboHighlightPickerAndInboxerSettings,
@@ -40,11 +77,19 @@ function sanitizeFileName(name: string): string {
     .slice(0, 120);
 }
 
+// What createNewInsightNote did; `path` is always the note holding the new quote
+interface InsightNoteResult {
+  path: string;
+  // set when a note with the proposed name already existed
+  collidedWith?: string;
+  // the newly created note, if any
+  file?: TFile;
+  // text added to an existing note instead of creating one
+  appended?: string;
+}
+
 export default class KoboHighlightsImporter extends Plugin {
   settings!: KoboHighlightPickerAndInboxerSettings;
-  // Marker used in intermediate notes to record an extracted insight.
-  // We count only these lines to compute "insights_created".
-  private readonly INSIGHT_LINK_PREFIX = "insight::";
 
 	async onload() {
     addIcon("inbox", INBOX_ICON_PATH);
@@ -56,7 +101,7 @@ export default class KoboHighlightsImporter extends Plugin {
 
     // 1. リボンアイコン（最初に登録）
     const iconEl = this.addRibbonIcon("inbox", "Kobo highlight picker", () => {
-      new ExtractHighlightsModal(this.app, this.settings).open();
+      new ExtractHighlightsModal(this.app, this).open();
     });
     iconEl.addClass("kobo-highlight-picker-inboxer-icon");
 
@@ -64,7 +109,30 @@ export default class KoboHighlightsImporter extends Plugin {
     this.addCommand({
       id: "import-from-kobo-sqlite",
       name: "Import from kobo",
-      callback: () => new ExtractHighlightsModal(this.app, this.settings).open(),
+      callback: () => new ExtractHighlightsModal(this.app, this).open(),
+    });
+
+    this.addCommand({
+      id: "import-from-connected-kobo",
+      name: "Import from connected kobo",
+      callback: () => {
+        void this.importFromConnectedKobo().catch(console.error);
+      },
+    });
+
+    this.registerView(BOOK_OVERVIEW_VIEW_TYPE, (leaf) => new BookOverviewView(leaf, this));
+    this.addCommand({
+      id: "open-book-overview",
+      name: "Open book overview",
+      callback: () => {
+        void this.openBookOverview().catch(console.error);
+      },
+    });
+
+    this.addCommand({
+      id: "review-ignored-highlights",
+      name: "Review ignored highlights",
+      callback: () => new IgnoredHighlightsModal(this.app, this).open(),
     });
 
     // 3. 抽出コマンド（エラーの出にくいシンプルな callback 形式に変更）
@@ -74,13 +142,72 @@ export default class KoboHighlightsImporter extends Plugin {
       callback: async () => {
         const activeFile = this.app.workspace.getActiveFile();
         if (activeFile && activeFile.extension === "md") {
-          await this.extractHighlightsToNotes(activeFile);
+          await this.previewInsightExtraction(activeFile);
         } else {
           new Notice("There is no active Markdown file.");
         }
       },
     });
 
+    this.addCommand({
+      id: "extract-highlights-all-inboxes",
+      name: "Generate insights from all inbox notes",
+      callback: () => {
+        void this.extractHighlightsFromAllInboxes().catch(console.error);
+      },
+    });
+
+    this.addCommand({
+      id: "add-memo-to-highlight",
+      name: "Add another memo to this highlight",
+      editorCallback: (editor) => {
+        const lines = editor.getValue().split("\n");
+        const at = memoInsertionIndex(lines, editor.getCursor().line);
+        if (at === null) {
+          new Notice("Place the cursor inside a highlight block.");
+          return;
+        }
+        if (at < lines.length) {
+          editor.replaceRange(`${RESET_MEMO_LINE}\n`, { line: at, ch: 0 });
+        } else {
+          // the block ends the note
+          editor.replaceRange(`\n${RESET_MEMO_LINE}`, { line: at - 1, ch: lines[at - 1].length });
+        }
+        editor.setCursor({ line: at, ch: RESET_MEMO_LINE.length });
+      },
+    });
+
+    this.addCommand({
+      id: "undo-last-extraction",
+      name: "Undo last extraction",
+      callback: () => {
+        void this.undoLastExtraction().catch(console.error);
+      },
+    });
+
+    const linkKeeper = new InsightLinkKeeper(this.app, this);
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        void linkKeeper.onRename(file, oldPath).catch(console.error);
+      }),
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        void linkKeeper.onDelete(file).catch(console.error);
+      }),
+    );
+
+    this.addCommand({
+      id: "repair-insight-links",
+      name: "Repair insight links",
+      callback: async () => {
+        const { relinked, fields, dangling } = await linkKeeper.repairAll();
+        let message = `Relinked ${relinked} insights, fixed ${fields} insight notes.`;
+        if (dangling > 0) message += ` ${dangling} insight links point to missing notes.`;
+        new Notice(message);
+      },
+    });
+
     // 4. コードブロックプロセッサ
     this.registerMarkdownCodeBlockProcessor("kobo-inboxer", (source, el, ctx) => {
       const btn = el.createEl("button", { 
@@ -91,7 +218,7 @@ export default class KoboHighlightsImporter extends Plugin {
       btn.addEventListener("click", () => {
         const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
         if (file instanceof TFile) {
-          void this.extractHighlightsToNotes(file).catch(console.error);
+          void this.previewInsightExtraction(file).catch(console.error);
         }
       });
     });
@@ -106,137 +233,363 @@ export default class KoboHighlightsImporter extends Plugin {
     await this.saveData(this.settings);
   }
 
-	async extractHighlightsToNotes(file: TFile) {
-    const content = await this.app.vault.read(file);
-    const lines = content.split("\n");
-    const newLines = [...lines];
-
-    const targets: { index: number; title: string }[] = [];
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      // チェックボックス [x] が含まれているか確認
-      if (line.includes("- [x]")) {
-        // チェックボックスより右側のテキストをすべて取得
-        let insightTitle = line.replace(/^\s*-\s*\[x\]\s*/, "").trim();
-        // もし先頭に "_" が残っていたら、それとその後のスペースを掃除する
-        insightTitle = insightTitle.replace(/^_\s*/, "").trim();
-        // 何かしら文字が書かれていれば採用（"_" だけの場合は無視される）
-        if (insightTitle.length > 0) {
-          targets.push({ index: i, title: insightTitle });
-        }
+  async openBookOverview(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(BOOK_OVERVIEW_VIEW_TYPE)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf("tab");
+      await leaf.setViewState({ type: BOOK_OVERVIEW_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Read KoboReader.sqlite from every configured device that can be found
+   * (or the single mounted Kobo) and skip the file dialog.
+   * Falls back to the regular picker when no device can be read.
+   */
+  async importFromConnectedKobo(): Promise<void> {
+    const profiles: DeviceProfile[] =
+      this.settings.devices.length > 0
+        ? this.settings.devices
+        : [{ name: "", mountPath: this.settings.koboMountPath }];
+    const sources: DatabaseSource[] = [];
+
+    for (const profile of profiles) {
+      try {
+        const dbPath = await findKoboDatabase(profile.mountPath);
+        if (!dbPath) continue;
+
+        sources.push({ device: profile.name, buffer: await readKoboDatabase(dbPath) });
+        profile.lastDbPath = dbPath;
+        new Notice(`Loaded ${profile.name ? `${profile.name}: ` : ""}${dbPath}`);
+      } catch (e) {
+        console.warn(`Failed to read the database from ${profile.name || "the connected Kobo"}:`, e);
       }
     }
 
-    if (targets.length === 0) {
+    if (sources.length === 0) {
+      new Notice("No connected Kobo found. Please select KoboReader.sqlite manually.");
+    } else if (this.settings.devices.length > 0) {
+      await this.saveSettings();
+    }
+    new ExtractHighlightsModal(this.app, this, sources).open();
+  }
+
+  /**
+   * Turn every checked memo in an inbox note into an insight note.
+   * Shows a notice unless `notify` is false; the report is returned either way.
+   */
+	async extractHighlightsToNotes(
+    file: TFile,
+    notify = true,
+    journal?: ExtractionJournal,
+  ): Promise<InsightReport> {
+    const content = await this.app.vault.read(file);
+    const candidates = this.collectInsightCandidates(content.split("\n"));
+
+    if (candidates.length === 0) {
+      if (notify) new Notice("There's no memos you can extract.");
+      return { bookTitle: file.basename, path: file.path, created: 0, skipped: 0, collisions: [] };
+    }
+
+    return this.applyInsightCandidates(file, candidates, notify, journal);
+  }
+
+  /**
+   * Let the user review the checked memos of an inbox note (title, destination,
+   * which ones to keep) before anything is written.
+   */
+  async previewInsightExtraction(file: TFile): Promise<void> {
+    const content = await this.app.vault.read(file);
+    const candidates = this.collectInsightCandidates(content.split("\n"));
+
+    if (candidates.length === 0) {
       new Notice("There's no memos you can extract.");
       return;
     }
 
-    let createdCount = 0;
-    for (let j = targets.length - 1; j >= 0; j--) {
-      const target = targets[j];
-      const result = this.collectQuoteBlockUpwards(lines, target.index);
-
-      if (result.quoteContent.trim().length > 0) {
-        // 1) create an insight note
-        const createdPath = await this.createNewInsightNote(
-          target.title,
-          result.quoteContent,
-          file.basename,
-          result.bookmarkId,
-        );
-
-        newLines[target.index] = `- [ ] memo:: `;
-
-        // 3) add a dedicated marker line that we can reliably count later
-        //    (don't count generic [[links]]; only this prefix is considered)
-        if (createdPath) {
-          const linkTarget = createdPath.replace(/\.md$/i, "");
-          newLines.splice(target.index + 1, 0, `- ${this.INSIGHT_LINK_PREFIX} [[${linkTarget}]]`);
-        }
-        
-        createdCount++;
+    new InsightPreviewModal(this.app, this, file, candidates).open();
+  }
+
+  private collectInsightCandidates(lines: string[]): InsightCandidate[] {
+    const candidates: InsightCandidate[] = [];
+    for (const block of parseInboxLines(lines).blocks) {
+      for (const memo of block.memos) {
+        // 何かしら文字が書かれていれば採用（"- [x]" や "_" だけの場合は無視される）
+        const written = memo.lines[0].replace(/^\s*-\s*\[x\]\s*(?:_\s*)?/i, "").trim();
+        if (!memo.checked || written.length === 0 || isProcessedMemo(memo.lines[0])) continue;
+
+        const source: InsightSource = {
+          lineIndex: memo.index,
+          memo,
+          quote: block.quote,
+          bookmarkId: block.bookmarkId ?? "",
+          meta: block.meta,
+        };
+        candidates.push(candidateFromSource(source, this.settings.insightFolder));
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Write the insight notes and update the inbox note. The changes are recorded
+   * in `journal` when given; otherwise they are saved as the last extraction.
+   */
+  async applyInsightCandidates(
+    file: TFile,
+    candidates: InsightCandidate[],
+    notify = true,
+    journal?: ExtractionJournal,
+  ): Promise<InsightReport> {
+    const runJournal = journal ?? createExtractionJournal();
+    const inboxJournal: InboxJournal = { path: file.path, changes: [] };
+    const newLines = (await this.app.vault.read(file)).split("\n");
+    const report: InsightReport = {
+      bookTitle: file.basename,
+      path: file.path,
+      created: 0,
+      skipped: 0,
+      collisions: [],
+    };
+
+    const today = new Date().toISOString().split("T")[0];
+    const links: { source: InsightSource; insightLine: string }[] = [];
+    const templateErrors = new Set<string>();
+
+    for (const candidate of candidates) {
+      const edited = candidate.sources.some((s) =>
+        s.memo.lines.some((l, k) => newLines[s.lineIndex + k] !== l),
+      );
+      if (edited) {
+        // the note was edited while the preview was open
+        report.skipped++;
+        continue;
+      }
+
+      if (candidate.sources.some((s) => s.quote.trim().length === 0)) {
+        // no quote above a memo; leave it checked so the user can see it
+        report.skipped++;
+        continue;
+      }
+
+      // 1) create an insight note
+      let created: InsightNoteResult | null;
+      try {
+        created = await this.createNewInsightNote(file, candidate, templateErrors);
+      } catch (e) {
+        // e.g. a note whose name differs only in case; the other candidates,
+        // the inbox note and the journal are still written
+        console.error(e);
+        new Notice(`error: could not write the insight note. (${candidate.title})`);
+        created = null;
+      }
+
+      if (!created) {
+        report.skipped++;
+        continue;
+      }
+
+      // 3) add a dedicated marker line that we can reliably count later
+      //    (don't count generic [[links]]; only this prefix is considered)
+      const linkTarget = created.path.replace(/\.md$/i, "");
+      const insightLine = `- ${INSIGHT_LINK_PREFIX} [[${linkTarget}]]`;
+      for (const source of candidate.sources) {
+        links.push({ source, insightLine });
+      }
+      if (created.file) {
+        runJournal.created.push({ path: created.path, mtime: created.file.stat.mtime });
+        report.created++;
+      }
+      if (created.appended) {
+        runJournal.appended.push({ path: created.path, text: created.appended });
       }
+      if (created.collidedWith) {
+        report.collisions.push(created.collidedWith);
+      }
+    }
+
+    // bottom-up so inserted insight lines don't shift the remaining indexes
+    links.sort((a, b) => b.source.lineIndex - a.source.lineIndex);
+    for (const { source, insightLine } of links) {
+      const memoLines = source.memo.lines;
+      const processedLines = processedMemoLines(
+        source.memo,
+        this.settings.processedMemoStyle,
+        today,
+      );
+      newLines.splice(source.lineIndex, memoLines.length, ...processedLines, insightLine);
+      inboxJournal.changes.push({ memoLines, processedLines, insightLine });
     }
 
     await this.app.vault.modify(file, newLines.join("\n"));
     await this.updateIntermediateNoteStats(file);
-    new Notice(createdCount + " insight notes created.");
+    if (inboxJournal.changes.length > 0) runJournal.inboxes.push(inboxJournal);
+    if (!journal) await this.saveExtractionJournal(runJournal);
+    if (templateErrors.size > 0) {
+      new Notice(
+        `Template error, the default template was used instead:\n${Array.from(templateErrors).join("\n")}`,
+      );
+    }
+    if (notify) {
+      let message = report.created + " insight notes created.";
+      if (report.collisions.length > 0) {
+        message += ` ${report.collisions.length} titles already existed.`;
+      }
+      new Notice(message);
+    }
+    return report;
   }
 
   /**
-   * Recompute and store stats for an intermediate note.
-   * Source of truth is the note body; frontmatter is just a cache for fast UI.
+   * Inbox notes live in the intermediate folder, or anywhere once they carry
+   * the book's VolumeID or ISBN, so they can be renamed and moved freely.
    */
-  private async updateIntermediateNoteStats(file: TFile): Promise<void> {
-    try {
-      const text = await this.app.vault.read(file);
-      const stats = this.computeIntermediateStats(text);
-      await this.app.fileManager.processFrontMatter(file, (fm) => {
-        // keep existing title/sync_date
-        const kobo = (fm.kobo_stats ??= {});
-        kobo.highlights_total = stats.highlights_total;
-        kobo.insights_created = stats.insights_created;
-        kobo.updated_at = new Date().toISOString();
-      });
-    } catch (e) {
-      // Stats are a convenience; do not break extraction if something goes wrong.
-      console.warn("Failed to update kobo_stats:", e);
-    }
+  isInboxNote(path: string): boolean {
+    if (path.startsWith(`${normalizePath(this.settings.intermediateFolder)}/`)) return true;
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return (
+      file instanceof TFile &&
+      noteIdentity(file.path, this.app.metadataCache.getFileCache(file)?.frontmatter) !== null
+    );
   }
 
-  private computeIntermediateStats(text: string): {
-    highlights_total: number;
-    insights_created: number;
-  } {
-    const highlights_total = (text.match(/^> \[!quote\]/gm) ?? []).length;
+  inboxNotes(): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter((f) => this.isInboxNote(f.path));
+  }
 
-    // Only count lines that start with our dedicated marker.
-    const insights_created = (text.match(new RegExp(`^\\s*-\\s*${this.escapeForRegex(this.INSIGHT_LINK_PREFIX)}\\s*\\[\\[.+?\\]\\]`, "gm")) ?? []).length;
+  /**
+   * Run the extraction over every inbox note and show
+   * one consolidated report instead of a notice per book.
+   */
+  async extractHighlightsFromAllInboxes(): Promise<void> {
+    const files = this.inboxNotes().sort((a, b) => a.basename.localeCompare(b.basename));
+
+    const reports: InsightReport[] = [];
+    const journal = createExtractionJournal();
+    for (const file of files) {
+      try {
+        const report = await this.extractHighlightsToNotes(file, false, journal);
+        if (report.created + report.skipped + report.collisions.length > 0) {
+          reports.push(report);
+        }
+      } catch (e) {
+        console.error(`Failed to extract insights from ${file.path}:`, e);
+      }
+    }
 
-    return { highlights_total, insights_created };
+    await this.saveExtractionJournal(journal);
+    new InsightReportModal(this.app, reports).open();
   }
 
-  private escapeForRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // Runs that changed nothing keep the previous journal undoable
+  private async saveExtractionJournal(journal: ExtractionJournal): Promise<void> {
+    if (isEmptyJournal(journal)) return;
+    // A note created in this run may have had another quote appended later in
+    // the same run; undo should still see it as unmodified
+    for (const created of journal.created) {
+      const file = this.app.vault.getAbstractFileByPath(created.path);
+      if (file instanceof TFile) created.mtime = file.stat.mtime;
+    }
+    this.settings.lastExtraction = journal;
+    await this.saveSettings();
   }
 
-  private collectQuoteBlockUpwards(lines: string[], fromIndex: number) {
-    let quoteLines: string[] = [];
-    let started = false;
-    let bId = "";
-
-    // 記号を安全に定義
-    const htmlOpen = "<" + "!" + "--"; 
-
-    for (let k = fromIndex - 1; k >= 0; k--) {
-      const line = lines[k];
+  /**
+   * Revert the last extraction: trash the insight notes it created (unless
+   * edited since) and put the checked memo lines back into the inbox notes.
+   */
+  async undoLastExtraction(): Promise<void> {
+    const journal = this.settings.lastExtraction;
+    if (!journal) {
+      new Notice("There's no extraction to undo.");
+      return;
+    }
 
-      if (line.includes("id:")) {
-        const idMatch = line.match(/id:\s*([A-Za-z0-9_-]+)/);
-        if (idMatch) bId = idMatch[1];
+    let deleted = 0;
+    const kept: string[] = [];
+    for (const created of journal.created) {
+      const file = this.app.vault.getAbstractFileByPath(created.path);
+      if (!(file instanceof TFile)) continue;
+      if (file.stat.mtime !== created.mtime) {
+        kept.push(created.path);
+        continue;
       }
+      await this.app.vault.trash(file, true);
+      deleted++;
+    }
 
-      if (line.startsWith(">")) {
-        started = true;
-        // コールアウトタグやIDタグを除外
-        if (!line.includes("[!quote]") && !line.includes(htmlOpen)) {
-          quoteLines.unshift(line.replace(/^>\s?/, ""));
-        }
+    // A note may have had several sources appended in one run
+    const appendedByPath = new Map<string, string[]>();
+    for (const { path, text } of journal.appended) {
+      appendedByPath.set(path, [...(appendedByPath.get(path) ?? []), text]);
+    }
+    for (const [path, texts] of appendedByPath) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      const result = removeAppendedSources(await this.app.vault.read(file), texts);
+      if (result.kept > 0) kept.push(path);
+      if (result.kept < texts.length) await this.app.vault.modify(file, result.content);
+    }
+
+    let restored = 0;
+    let missing = 0;
+    for (const inbox of journal.inboxes) {
+      const file = this.app.vault.getAbstractFileByPath(inbox.path);
+      if (!(file instanceof TFile)) {
+        missing += inbox.changes.length;
         continue;
       }
-      
-      if (started) break;
+      const result = revertMemoChanges(await this.app.vault.read(file), inbox.changes);
+      if (result.restored > 0) {
+        await this.app.vault.modify(file, result.content);
+        await this.updateIntermediateNoteStats(file);
+      }
+      restored += result.restored;
+      missing += result.missing;
     }
 
-    return { 
-      quoteContent: quoteLines.join("\n"), 
-      bookmarkId: bId 
-    };
+    this.settings.lastExtraction = null;
+    await this.saveSettings();
+
+    let message = `Undo: ${deleted} insight notes deleted, ${restored} memos restored.`;
+    if (kept.length > 0) message += ` ${kept.length} edited notes were kept.`;
+    if (missing > 0) message += ` ${missing} memos could not be found.`;
+    new Notice(message);
   }
 
-  // ✅ bookmarkId をメタに入れたいなら使う（不要なら引数ごと消してOK）
-  async createNewInsightNote(title: string, quote: string, bookTitle: string, bookmarkId?: string): Promise<string | null> {
+  /**
+   * Recompute and store stats for an intermediate note.
+   * Source of truth is the note body; frontmatter is just a cache for fast UI.
+   */
+  async updateIntermediateNoteStats(file: TFile): Promise<void> {
+    try {
+      const text = await this.app.vault.read(file);
+      const stats = computeInboxStats(text);
+      const dangling = insightLinkTargets(text).filter(
+        (target) => !this.app.metadataCache.getFirstLinkpathDest(target, file.path),
+      ).length;
+      await this.app.fileManager.processFrontMatter(file, (fm) => {
+        // keep existing title/sync_date
+        const kobo = (fm.kobo_stats ??= {});
+        kobo.highlights_total = stats.highlights_total;
+        kobo.insights_created = stats.insights_created;
+        kobo.insights_dangling = dangling;
+        kobo.updated_at = new Date().toISOString();
+      });
+    } catch (e) {
+      // Stats are a convenience; do not break extraction if something goes wrong.
+      console.warn("Failed to update kobo_stats:", e);
+    }
+  }
+
+  /**
+   * Where the insight note for a memo would be written, or null when the memo
+   * has no usable title.
+   */
+  insightNotePath(title: string, folder: string = this.settings.insightFolder): string | null {
 		const normalizedTitle = (title ?? "")
     .replace(/^\s*memo::\s*/i, "")  // strip "memo::" if it appears at the start
     .trim();
@@ -246,59 +599,92 @@ export default class KoboHighlightsImporter extends Plugin {
 			return null;
 		}
 
-    const folder = this.settings.insightFolder;
-    const safe = sanitizeFileName(normalizedTitle);
-    const path = normalizePath(`${folder}/${safe}.md`);
+    return normalizePath(`${folder}/${sanitizeFileName(normalizedTitle)}.md`);
+  }
+
+  async createNewInsightNote(
+    inboxFile: TFile,
+    candidate: InsightCandidate,
+    templateErrors?: Set<string>,
+  ): Promise<InsightNoteResult | null> {
+    const { folder } = candidate;
+    const [first] = candidate.sources;
+    const meta = first.meta;
+    const path = this.insightNotePath(candidate.title, folder);
+    if (!path) {
+      return null;
+    }
+    const normalizedTitle = candidate.title.replace(/^\s*memo::\s*/i, "").trim();
 
     if (!(await this.app.vault.adapter.exists(folder))) {
       await this.app.vault.createFolder(folder);
     }
 
-    const created = new Date().toISOString().split("T")[0];
-    const metaBookmark = bookmarkId ? `bookmark: "${bookmarkId}"\n` : "";
-
-    const quoteBody = quote
-      .trim()
-      .split("\n")
-      .map((l) => `> ${l}`)
-      .join("\n");
-
-    const fileContent = `---
-title: "${normalizedTitle.replace(/"/g, '\\"')}"
-book: "[[${bookTitle}]]"
-${metaBookmark}created: ${created}
----
-
-> [!quote] ${title}
-${quoteBody}
->
-> <cite>— *${bookTitle}*</cite>
-`;
-
-    try {
-      await this.app.vault.create(path, fileContent);
-      return path;
-    } catch (e) {
-      new Notice(`error: a file with same name already exists. (${title})`);
-      return path; // still return path so the link can be added (user might already have it)
-    }
-  }
-}
-
+    const template = await getTemplateContents(
+      this.app,
+      this.settings.insightTemplatePath,
+      defaultInsightNoteTemplate,
+    );
+    const author = this.app.metadataCache.getFileCache(inboxFile)?.frontmatter?.author;
+
+    const data: InsightNoteData = {
+      title: normalizedTitle,
+      memo: candidate.body || undefined,
+      quote: candidate.sources.map((s) => s.quote).join("\n\n"),
+      bookTitle: inboxFile.basename,
+      author: typeof author === "string" ? author : undefined,
+      bookmarkId: first.bookmarkId,
+      chapter: meta.chapter,
+      highlightDate: meta.created?.split("T")[0],
+      chapterProgress: meta.progress,
+      color: meta.color,
+      annotationDate: meta.annotated,
+      inboxNote: inboxFile.path.replace(/\.md$/i, ""),
+      created: new Date().toISOString().split("T")[0],
+      sources: candidate.sources.map((s) => ({
+        quote: s.quote,
+        chapter: s.meta.chapter,
+        bookmarkId: s.bookmarkId,
+        highlightDate: s.meta.created?.split("T")[0],
+        color: s.meta.color,
+      })),
+    };
 
+    let target = path;
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing) {
+      const action =
+        this.settings.insightCollisionPolicy === "prompt"
+          ? await new InsightCollisionModal(this.app, path).choose()
+          : this.settings.insightCollisionPolicy;
 
-// ===== Kobo Stats Helpers (FINAL) =====
-export function computeKoboStatsFromBody(body: string) {
-  const highlights_total =
-    (body.match(/^> \[!quote\]/gm) || []).length;
+      if (action === "skip") {
+        return null;
+      }
+      if (action === "append" && existing instanceof TFile) {
+        // the link points at the existing note, which now holds the quote too
+        const appended = renderAdditionalSource(data);
+        await this.app.vault.append(existing, appended);
+        return { path, collidedWith: path, appended };
+      }
+      target = this.nextFreeInsightPath(path);
+    }
 
+    const file = await this.app.vault.create(target, renderInsightNote(template, data, templateErrors));
+    return { path: target, collidedWith: existing ? path : undefined, file };
+  }
 
+  // "Title.md" -> "Title 2.md", "Title 3.md", ... whichever is free first
+  private nextFreeInsightPath(path: string): string {
+    const base = path.replace(/\.md$/i, "");
+    for (let n = 2; ; n++) {
+      const candidate = `${base} ${n}.md`;
+      if (!this.app.vault.getAbstractFileByPath(candidate)) return candidate;
+    }
+  }
+}
 
-  const insights_created =
-    (body.match(/^\s*-\s*insight::\s*\[\[.+?\]\]/gm) || []).length;
 
-  return { highlights_total, insights_created };
-}
 
 // Replace memo:: with insight:: inside a highlight block
 export function replaceMemoWithInsight(
@@ -1,106 +1,130 @@
 import { App, Modal, normalizePath, Notice, TFile, Setting } from "obsidian";
 import { sanitize } from "sanitize-filename-ts";
-import SqlJs from "sql.js";
+import SqlJs, { Database } from "sql.js";
 import { binary } from "src/binaries/sql-wasm";
-import { HighlightService } from "src/database/Highlight";
-import { Bookmark } from "src/database/interfaces";
+import { chapter, HighlightService } from "src/database/Highlight";
+import {
+	BookListEntry,
+	BookListFilter,
+	BookListSort,
+	bookListEntry,
+	countPendingHighlights,
+	DEFAULT_BOOK_LIST_FILTER,
+	distinctValues,
+	filterBooks,
+	sortBooks,
+} from "src/database/bookList";
+import {
+	NoteIdentity,
+	noteIdentity,
+	resolveBookNotePath,
+	volumeIdsByTitle,
+} from "src/inbox/bookIdentity";
+import { DatabaseSource, DeviceHighlights, mergeDeviceHighlights } from "src/database/deviceMerge";
+import { BookDetails, Bookmark, BookRef, ReadStatus } from "src/database/interfaces";
 import { Repository } from "src/database/repository";
+import {
+	ChapterOrder,
+	handleDeletedHighlights,
+	insertBlocksByChapter,
+	NewBlock,
+	presentInNote,
+	updateHighlightBlocks,
+} from "src/inbox/highlightBlock";
+import {
+	createBookSnapshot,
+	diffBookSnapshot,
+	formatSnapshotDiff,
+	rekeySnapshots,
+} from "src/database/snapshot";
+import KoboHighlightPickerAndInboxer from "src/main";
+import { countIgnored, isIgnored, rekeyIgnored, withIgnored } from "src/settings/ignoredHighlights";
 import { KoboHighlightPickerAndInboxerSettings } from "src/settings/Settings";
-import { applyTemplateTransformations } from "src/template/template";
+import {
+	bookFrontmatter,
+	defaultHighlightBlockTemplate,
+	defaultNoteHeaderTemplate,
+	renderHighlightBlock,
+	renderNoteHeader,
+} from "src/template/template";
 import { getTemplateContents } from "src/template/templateContents";
 
+interface PickedHighlight {
+	// VolumeID of the book
+	bookId: string;
+	bookmark: Bookmark;
+	chapter: chapter;
+	// Optional title typed in the picker; falls back to a text summary
+	title: string;
+}
+
 export class ExtractHighlightsModal extends Modal {
 	goButtonEl!: HTMLButtonElement;
 	inputFileEl!: HTMLInputElement;
 
 	settings: KoboHighlightPickerAndInboxerSettings;
 
-	fileBuffer: ArrayBuffer | null | undefined;
-
-	nrOfBooksExtracted: number;
+	// Loaded databases; several when highlights of more than one device are merged
+	sources: DatabaseSource[];
 
 	bookListContainerEl!: HTMLDivElement; // リスト表示用
-  selectedBooks: Set<string> = new Set(); // チェックされた本のタイトルを保持
+  selectedBooks: Set<string> = new Set(); // チェックされた本の VolumeID を保持
+
+	// Book selector rows for the loaded DB (lazy), and how they are narrowed down
+	private bookEntries: BookListEntry[] | null = null;
+	private bookFilter: BookListFilter = { ...DEFAULT_BOOK_LIST_FILTER };
+	private bookSort: BookListSort = "title";
+	private bookRowsEl!: HTMLDivElement;
+	// Titles and details of the books in the loaded DBs by VolumeID
+	private bookTitles: Map<string, string> = new Map();
+	private bookDetails: Map<string, BookDetails> = new Map();
+	// Identity of every inbox note in the vault (lazy)
+	private noteIndex: NoteIdentity[] | null = null;
+	// All highlights of the loaded DBs, grouped by book then chapter (lazy)
+	private highlightsByBook: Map<string, Map<chapter, Bookmark[]>> | null = null;
+	// Every BookmarkID on the loaded DBs, including merged duplicates
+	private knownBookmarkIds: Set<string> = new Set();
+	// Step 2: highlights not yet in the inbox note, grouped by book then chapter
+	private pendingHighlights: Map<string, Map<chapter, Bookmark[]>> = new Map();
+	// Step 2: number of existing blocks per book whose text changed on the device
+	private pendingUpdates: Map<string, number> = new Map();
+	// Step 2: blocks per book whose bookmark is gone from the device
+	private pendingDeletions: Map<string, { orphaned: number; changed: number }> = new Map();
+	// Step 2: selected books with a note, whose book details every sync refreshes
+	private booksWithNote: Set<string> = new Set();
+	// Step 2: ticked highlights keyed by BookmarkID
+	private pickedHighlights: Map<string, PickedHighlight> = new Map();
 
 	private get intermediateFolder(): string {
 		return this.settings?.intermediateFolder || "Kobo-Inboxes";
 	}
-  // Marker line used in intermediate notes to record an extracted insight.
-  private readonly INSIGHT_LINK_PREFIX = "insight::";
 
-	constructor(app: App, settings: KoboHighlightPickerAndInboxerSettings) {
+	constructor(
+		app: App,
+		private plugin: KoboHighlightPickerAndInboxer,
+		sources: DatabaseSource[] = [],
+	) {
 		super(app);
-		this.settings = settings;
-		this.nrOfBooksExtracted = 0;
+		this.settings = plugin.settings;
+		// Preloaded when the database was read straight from a connected Kobo
+		this.sources = sources;
 	}
 
-	private async fetchHighlights() {
-		if (!this.fileBuffer) {
+	private async openDatabases(): Promise<{ device: string; db: Database }[]> {
+		if (this.sources.length === 0) {
 			throw new Error("No SQlite database file selected.");
 		}
 
-		const SQLEngine = await SqlJs({
-			wasmBinary: binary.buffer,
-		});
-
-		const db = new SQLEngine.Database(new Uint8Array(this.fileBuffer));
-
-		const service: HighlightService = new HighlightService(
-			new Repository(db),
-		);
-
-		const content = service.convertToMap(
-			await service.getAllHighlight(this.settings.sortByChapterProgress),
-		);
-
-		const allBooksContent = new Map<string, Map<string, Bookmark[]>>();
-
-		// Add all books with highlights
-		for (const [bookTitle, chapters] of content) {
-			allBooksContent.set(bookTitle, chapters);
-		}
-
-		if (this.settings.importAllBooks) {
-			// Add books without highlights
-			const allBooks = await service.getAllBooks();
-
-			for (const [bookTitle, _] of allBooks) {
-				if (!allBooksContent.has(bookTitle)) {
-					allBooksContent.set(
-						bookTitle,
-						service.createEmptyContentMap(),
-					);
-				}
-			}
-		}
-
-		this.nrOfBooksExtracted = allBooksContent.size;
-		await this.writeBooks(service, allBooksContent);
+		const SQLEngine = await SqlJs({ wasmBinary: binary.buffer });
+		return this.sources.map(({ device, buffer }) => ({
+			device,
+			db: new SQLEngine.Database(new Uint8Array(buffer)),
+		}));
 	}
 
-	private async writeBooks(
-		service: HighlightService,
-		content: Map<string, Map<string, Bookmark[]>>,
-	) {
-		const template = await getTemplateContents(
-			this.app,
-			this.settings.templatePath,
-		);
-
-		for (const [bookTitle, chapters] of content) {
-			const sanitizedBookName = sanitize(bookTitle);
-			const fileName = normalizePath(
-				`${this.intermediateFolder}/${sanitizedBookName}.md`,
-			);
-
-			const details =
-				await service.getBookDetailsFromBookTitle(bookTitle);
-
-			await this.app.vault.adapter.write(
-				fileName,
-				applyTemplateTransformations(template, chapters, details),
-			);
-		}
+	// Devices of the loaded databases, "" for a file picked by hand
+	private get loadedDevices(): Set<string> {
+		return new Set(this.sources.map((s) => s.device));
 	}
 
 	onOpen() {
@@ -133,30 +157,185 @@ export class ExtractHighlightsModal extends Modal {
 	
 			const reader = new FileReader();
 			reader.onload = () => {
-				this.fileBuffer = reader.result as ArrayBuffer;
+				this.sources = [{ device: "", buffer: reader.result as ArrayBuffer }];
+				this.highlightsByBook = null;
+				this.knownBookmarkIds = new Set();
+				this.bookEntries = null;
 				void this.refreshBookList().catch(console.error);
 			};
 			reader.readAsArrayBuffer(file);
 		});
 
+		if (this.sources.length > 0) {
+			void this.refreshBookList().catch(console.error);
+		}
+
 		this.goButtonEl.addEventListener("click", () => {
 			void (async () => {
 				if (this.selectedBooks.size === 0) return;
-		
-				const SQLEngine = await SqlJs({ wasmBinary: binary.buffer });
-				const db = new SQLEngine.Database(new Uint8Array(this.fileBuffer!));
+
+				await this.loadPendingHighlights();
+				this.renderHighlightSelector();
+			})().catch(console.error);
+		});
+	}
+
+	/**
+	 * Collect the highlights of the selected books that are not in their
+	 * intermediate note yet, grouped by chapter, and count the blocks that
+	 * were edited on the device.
+	 */
+	private async loadPendingHighlights() {
+		const content = await this.getHighlightsByBook();
+
+		this.pendingHighlights = new Map();
+		this.pendingUpdates = new Map();
+		this.pendingDeletions = new Map();
+		this.booksWithNote = new Set();
+		this.pickedHighlights.clear();
+
+		const knownIds = await this.getKnownBookmarkIds();
+
+		for (const bookId of this.selectedBooks) {
+			const chapters = content.get(bookId) ?? new Map<chapter, Bookmark[]>();
+
+			const fileName = this.bookNotePath(bookId);
+			const hasNote = await this.app.vault.adapter.exists(fileName);
+			const existingContent = hasNote ? await this.app.vault.adapter.read(fileName) : "";
+			if (hasNote) this.booksWithNote.add(bookId);
+
+			const bookmarks = Array.from(chapters.values()).flat();
+			const { updates } = updateHighlightBlocks(existingContent, bookmarks);
+			this.pendingUpdates.set(bookId, updates.length);
+
+			const { orphaned, changed } = handleDeletedHighlights(
+				existingContent,
+				knownIds,
+				this.settings.deletedHighlightPolicy,
+				this.loadedDevices,
+			);
+			this.pendingDeletions.set(bookId, {
+				orphaned: orphaned.length,
+				changed: changed.length,
+			});
+
+			const inNote = presentInNote(existingContent, chapters);
+			const pendingChapters = new Map<chapter, Bookmark[]>();
+			for (const [chapterName, bookmarks] of chapters) {
+				const pending = bookmarks.filter(
+					(b) =>
+						!inNote.has(b.bookmarkId) &&
+						!isIgnored(this.settings.ignoredHighlights, bookId, b.bookmarkId),
+				);
+				if (pending.length > 0) {
+					pendingChapters.set(chapterName, pending);
+				}
+			}
+
+			this.pendingHighlights.set(bookId, pendingChapters);
+		}
+	}
+
+	/**
+	 * Resolve every bookmark of the loaded DB to its book and chapter once,
+	 * then reuse the result for the book list and the picker.
+	 */
+	private async getHighlightsByBook(): Promise<Map<string, Map<chapter, Bookmark[]>>> {
+		if (this.highlightsByBook) return this.highlightsByBook;
+
+		const databases = await this.openDatabases();
+		try {
+			const perDevice: DeviceHighlights[] = [];
+			const knownIds = new Set<string>();
+			for (const { device, db } of databases) {
 				const service = new HighlightService(new Repository(db));
-		
-				new Notice("Syncing intermediate notes...");
-		
-				for (const bookTitle of Array.from(this.selectedBooks)) {
-					await this.syncToIntermediateNote(bookTitle, service, db);
+				const books = service.convertToMap(
+					await service.getAllHighlight(this.settings.sortByChapterProgress),
+				);
+				perDevice.push({ device, books });
+				// Ids of duplicates dropped by the merge are still on a device
+				for (const chapters of books.values()) {
+					for (const bookmarks of chapters.values()) {
+						bookmarks.forEach((b) => knownIds.add(b.bookmarkId));
+					}
 				}
-		
-				db.close();
-				this.close();
-			})().catch(console.error);
-		});		
+			}
+
+			const merged = mergeDeviceHighlights(perDevice, this.settings.sortByChapterProgress);
+			this.knownBookmarkIds = knownIds;
+			this.highlightsByBook = merged;
+			return merged;
+		} finally {
+			databases.forEach(({ db }) => db.close());
+		}
+	}
+
+	private async getBookDetails(bookId: string): Promise<BookDetails> {
+		// Already read with the book list
+		const known = this.bookDetails.get(bookId);
+		if (known) return known;
+
+		const databases = await this.openDatabases();
+		try {
+			for (const { db } of databases) {
+				const details = await new Repository(db).getBookDetailsByVolumeId(bookId);
+				if (details) return details;
+			}
+			// A book without details keeps the title it is listed under, and its
+			// VolumeID so the note can still be found after a rename
+			const { unknownAuthor } = new HighlightService(new Repository(databases[0].db));
+			return { title: this.bookTitle(bookId), author: unknownAuthor, volumeId: bookId };
+		} finally {
+			databases.forEach(({ db }) => db.close());
+		}
+	}
+
+	private async getKnownBookmarkIds(): Promise<Set<string>> {
+		await this.getHighlightsByBook();
+		return this.knownBookmarkIds;
+	}
+
+	// Blocks that syncing would rewrite because of edits or deletions on the device
+	private countDeviceChanges(bookId: string): number {
+		return (
+			(this.pendingUpdates.get(bookId) ?? 0) +
+			(this.pendingDeletions.get(bookId)?.changed ?? 0)
+		);
+	}
+
+	private bookTitle(bookId: string): string {
+		return this.bookTitles.get(bookId) ?? bookId;
+	}
+
+	/**
+	 * Remember the current DB state of the synced books so the next import
+	 * can tell what changed on the device since.
+	 */
+	private async saveImportSnapshots(bookIds: string[]) {
+		const content = await this.getHighlightsByBook();
+		const snapshots = { ...this.settings.importSnapshots };
+
+		for (const bookId of bookIds) {
+			const chapters = content.get(bookId);
+			if (!chapters) continue;
+			snapshots[bookId] = createBookSnapshot(Array.from(chapters.values()).flat());
+		}
+
+		this.settings.importSnapshots = snapshots;
+		await this.plugin.saveSettings();
+	}
+
+	private describeChangesSinceLastSync(
+		bookId: string,
+		content: Map<string, Map<chapter, Bookmark[]>>,
+	): string {
+		const previous = this.settings.importSnapshots[bookId];
+		const chapters = content.get(bookId);
+		if (!previous || !chapters) return "";
+
+		return formatSnapshotDiff(
+			diffBookSnapshot(previous, Array.from(chapters.values()).flat()),
+		);
 	}
 
 	private renderHighlightSelector() {
@@ -168,7 +347,212 @@ export class ExtractHighlightsModal extends Modal {
 			.setHeading();
 	
 		const scrollArea = contentEl.createDiv({ cls: "kobo-highlight-scroll-area" });
-		scrollArea.createEl("p", { text: "Loading highlights for selected books..." });
+
+		const buttonContainer = contentEl.createDiv({ cls: "kobo-button-container" });
+		const backBtn = buttonContainer.createEl("button", { text: "Back" });
+		const syncBtn = buttonContainer.createEl("button", { cls: "mod-cta" });
+
+		const totalChanges = Array.from(this.pendingHighlights.keys()).reduce(
+			(sum, bookId) => sum + this.countDeviceChanges(bookId),
+			0,
+		);
+		const refreshes = this.booksWithNote.size;
+		const updateSyncButton = () => {
+			const n = this.pickedHighlights.size;
+			syncBtn.setText(
+				n === 0 && totalChanges === 0
+					? `Refresh book details of ${refreshes} note${refreshes === 1 ? "" : "s"}`
+					: `Sync ${n} selected highlight${n === 1 ? "" : "s"}` +
+							(totalChanges > 0 ? ` and update ${totalChanges} changed` : ""),
+			);
+			syncBtn.disabled = n === 0 && totalChanges === 0 && refreshes === 0;
+		};
+
+		const checkboxes = new Map<string, HTMLInputElement>();
+
+		for (const [bookId, chapters] of this.pendingHighlights) {
+			const bookTitle = this.bookTitle(bookId);
+			const bookmarks = Array.from(chapters.values()).flat();
+			let remaining = bookmarks.length;
+
+			const section = scrollArea.createDiv({ cls: "kobo-book-section" });
+			const sectionTitle = section.createDiv({ cls: "kobo-section-title" });
+			const updateSectionTitle = () => {
+				const ignored = countIgnored(this.settings.ignoredHighlights, bookId);
+				sectionTitle.setText(
+					ignored > 0
+						? `${bookTitle} (${remaining} new, ${ignored} ignored)`
+						: `${bookTitle} (${remaining} new)`,
+				);
+			};
+			updateSectionTitle();
+
+			const updates = this.pendingUpdates.get(bookId) ?? 0;
+			if (updates > 0) {
+				section.createEl("p", {
+					text: `${updates} highlight${updates === 1 ? " was" : "s were"} edited on the device and will be updated in the intermediate note.`,
+					cls: "kobo-highlight-hint",
+				});
+			}
+
+			const deletions = this.pendingDeletions.get(bookId);
+			if (deletions && deletions.orphaned > 0) {
+				const action =
+					this.settings.deletedHighlightPolicy === "archive"
+						? "moved to the archive section"
+						: "tagged as deleted-on-device";
+				section.createEl("p", {
+					text:
+						deletions.changed > 0
+							? `${deletions.changed} highlight${deletions.changed === 1 ? " was" : "s were"} deleted on the device and will be ${action}.`
+							: `${deletions.orphaned} highlight${deletions.orphaned === 1 ? " is" : "s are"} no longer on the device.`,
+					cls: "kobo-highlight-hint",
+				});
+			}
+
+			if (bookmarks.length === 0) {
+				section.createEl("p", {
+					text: "All highlights of this book are already in the intermediate note.",
+					cls: "kobo-highlight-hint",
+				});
+				continue;
+			}
+
+			const actionRow = section.createDiv({ cls: "kobo-book-actions" });
+			const selectAllBtn = actionRow.createEl("button", { text: "Select all" });
+			const clearBtn = actionRow.createEl("button", { text: "Clear selection" });
+
+			const setBookChecked = (checked: boolean) => {
+				for (const b of bookmarks) {
+					const checkbox = checkboxes.get(b.bookmarkId);
+					if (!checkbox || checkbox.checked === checked) continue;
+					checkbox.checked = checked;
+					checkbox.dispatchEvent(new Event("change"));
+				}
+			};
+			selectAllBtn.addEventListener("click", () => setBookChecked(true));
+			clearBtn.addEventListener("click", () => setBookChecked(false));
+
+			for (const [chapterName, chapterBookmarks] of chapters) {
+				section.createDiv({ cls: "kobo-chapter-title", text: chapterName });
+
+				for (const bookmark of chapterBookmarks) {
+					const row = section.createDiv({ cls: "kobo-highlight-row" });
+					const checkbox = row.createEl("input", { type: "checkbox" });
+					checkboxes.set(bookmark.bookmarkId, checkbox);
+
+					const body = row.createDiv({ cls: "kobo-highlight-body" });
+					body.createDiv({ cls: "kobo-highlight-text", text: bookmark.text });
+					if (bookmark.note) {
+						body.createDiv({ cls: "kobo-highlight-note", text: `📝: ${bookmark.note}` });
+					}
+
+					const titleInput = body.createEl("input", {
+						type: "text",
+						cls: "kobo-highlight-title",
+						placeholder: "Custom title (optional)",
+					});
+
+					const ignoreBtn = row.createEl("button", { text: "Ignore" });
+					ignoreBtn.addEventListener("click", () => {
+						void (async () => {
+							this.settings.ignoredHighlights = withIgnored(
+								this.settings.ignoredHighlights,
+								bookId,
+								bookmark,
+								bookTitle,
+							);
+							await this.plugin.saveSettings();
+
+							row.remove();
+							checkboxes.delete(bookmark.bookmarkId);
+							this.pickedHighlights.delete(bookmark.bookmarkId);
+							remaining--;
+							updateSectionTitle();
+							updateSyncButton();
+						})().catch(console.error);
+					});
+
+					checkbox.addEventListener("change", () => {
+						if (checkbox.checked) {
+							this.pickedHighlights.set(bookmark.bookmarkId, {
+								bookId,
+								bookmark,
+								chapter: chapterName,
+								title: titleInput.value,
+							});
+						} else {
+							this.pickedHighlights.delete(bookmark.bookmarkId);
+						}
+						updateSyncButton();
+					});
+
+					titleInput.addEventListener("input", () => {
+						// Typing a title implies the highlight should be picked
+						if (!checkbox.checked) {
+							checkbox.checked = true;
+							checkbox.dispatchEvent(new Event("change"));
+						}
+						const picked = this.pickedHighlights.get(bookmark.bookmarkId);
+						if (picked) picked.title = titleInput.value;
+					});
+				}
+			}
+		}
+
+		updateSyncButton();
+
+		backBtn.addEventListener("click", () => {
+			this.pickedHighlights.clear();
+			// Highlights may have been ignored meanwhile; recount
+			this.bookEntries = null;
+			this.onOpen();
+			this.goButtonEl.disabled = this.selectedBooks.size === 0;
+		});
+
+		syncBtn.addEventListener("click", () => {
+			void (async () => {
+				if (this.pickedHighlights.size === 0 && totalChanges === 0 && refreshes === 0) return;
+
+				new Notice("Syncing intermediate notes...");
+
+				const content = await this.getHighlightsByBook();
+				const knownIds = await this.getKnownBookmarkIds();
+				const templateErrors = new Set<string>();
+				const syncedBooks: string[] = [];
+				for (const bookId of this.pendingHighlights.keys()) {
+					const picks = Array.from(this.pickedHighlights.values()).filter(
+						(p) => p.bookId === bookId,
+					);
+					if (picks.length > 0 || this.countDeviceChanges(bookId) > 0) {
+						const chapters = content.get(bookId) ?? new Map<chapter, Bookmark[]>();
+						await this.syncToIntermediateNote(
+							bookId,
+							picks,
+							chapters,
+							knownIds,
+							templateErrors,
+						);
+						syncedBooks.push(bookId);
+					} else if (this.booksWithNote.has(bookId)) {
+						// Reading progress moves on without new highlights too
+						await this.updateBookFrontmatter(
+							this.bookNotePath(bookId),
+							await this.getBookDetails(bookId),
+						);
+					}
+				}
+
+				await this.saveImportSnapshots(syncedBooks);
+				if (templateErrors.size > 0) {
+					new Notice(
+						`Template error, the default template was used instead:\n${Array.from(templateErrors).join("\n")}`,
+					);
+				}
+
+				this.close();
+			})().catch(console.error);
+		});
 	}
 	
 
@@ -177,96 +561,252 @@ export class ExtractHighlightsModal extends Modal {
 		contentEl.empty();
 	}
 
+	/**
+	 * Load the books with highlights from the DB once per file, then render
+	 * the selector. Searching, filtering and sorting only re-render the rows.
+	 */
 	private async refreshBookList() {
-		if (!this.fileBuffer) return;
+		if (this.sources.length === 0) return;
 
 		this.bookListContainerEl.empty();
 		new Setting(this.bookListContainerEl)
 			.setName("Select books to import")
 			.setHeading();
 
+		if (!this.bookEntries) {
+			this.bookEntries = await this.loadBookEntries();
+			const newCount = this.bookEntries.filter((e) => !e.hasNote).length;
+			new Notice(
+				`${this.bookEntries.length} books with highlights found. new: ${newCount} / synced: ${this.bookEntries.length - newCount}`,
+			);
+		}
+		const entries = this.bookEntries;
 
-		const SQLEngine = await SqlJs({ wasmBinary: binary.buffer });
-		const db = new SQLEngine.Database(new Uint8Array(this.fileBuffer));
-		
-		// --- 軽量化SQL: ハイライトが存在する本のタイトルだけを重複なく取得 ---
-		const query = `
-			SELECT DISTINCT content.Title 
-			FROM content 
-			JOIN bookmark ON content.ContentID = bookmark.VolumeID 
-			WHERE content.ContentType = 6
-			ORDER BY content.Title ASC
-		`;
-		
-		const results = db.exec(query);
-		
-		if (results.length === 0 || !results[0].values) {
+		if (entries.length === 0) {
 			this.bookListContainerEl.createEl("p", { text: "No books with highlights found." });
-			db.close();
 			return;
 		}
-		
-		const bookTitles = results[0].values.map(v => v[0] as string);
 
-		// --- 既存の中継ノート有無で振り分け ---
-		const folderPath = this.intermediateFolder;
-		const statusList = await Promise.all(
-			bookTitles.map(async (bookTitle) => {
-				const sanitizedBookName = sanitize(bookTitle);
-				const fileName = normalizePath(`${folderPath}/${sanitizedBookName}.md`);
-				const exists = await this.app.vault.adapter.exists(fileName);
-				return { bookTitle, exists, fileName };
-			})
-		);
-
-		const already = statusList.filter(x => x.exists).map(x => x.bookTitle);
-		const newOnes = statusList.filter(x => !x.exists).map(x => x.bookTitle);
+		this.renderBookListControls(entries);
 
-		// UI: 便利ボタン
+		// UI: 便利ボタン（表示中の本が対象）
 		const actionRow = this.bookListContainerEl.createDiv({ cls: "kobo-book-actions" });
 
 		const selectNewBtn = actionRow.createEl("button", { text: "Select all new" });
 		selectNewBtn.addEventListener("click", () => {
-			this.selectedBooks = new Set(newOnes);
-			this.goButtonEl.disabled = this.selectedBooks.size === 0;
-			void this.refreshBookList().catch(console.error);
+			this.selectedBooks = new Set(
+				this.visibleBooks(entries).filter((e) => !e.hasNote).map((e) => e.id),
+			);
+			this.renderBookRows(entries);
+		});
+
+		const selectWithNewBtn = actionRow.createEl("button", {
+			text: "Select books with new highlights",
+		});
+		selectWithNewBtn.addEventListener("click", () => {
+			this.selectedBooks = new Set(
+				this.visibleBooks(entries).filter((e) => e.newHighlights > 0).map((e) => e.id),
+			);
+			this.renderBookRows(entries);
 		});
 
 		const selectAllBtn = actionRow.createEl("button", { text: "Select all" });
 		selectAllBtn.addEventListener("click", () => {
-			this.selectedBooks = new Set(bookTitles);
-			this.goButtonEl.disabled = this.selectedBooks.size === 0;
-			void this.refreshBookList().catch(console.error);
+			this.selectedBooks = new Set(this.visibleBooks(entries).map((e) => e.id));
+			this.renderBookRows(entries);
 		});
 
 		const clearBtn = actionRow.createEl("button", { text: "Clear selection" });
 		clearBtn.addEventListener("click", () => {
 			this.selectedBooks.clear();
-			this.goButtonEl.disabled = true;
-			void this.refreshBookList().catch(console.error);
+			this.renderBookRows(entries);
+		});
+
+		this.bookRowsEl = this.bookListContainerEl.createDiv({ cls: "kobo-book-rows" });
+		this.renderBookRows(entries);
+	}
+
+	private async loadBookEntries(): Promise<BookListEntry[]> {
+		// Notes may have been renamed or moved since the last listing
+		this.noteIndex = null;
+		const databases = await this.openDatabases();
+		const books = new Map<string, BookRef>();
+		const details = new Map<string, BookDetails>();
+		try {
+			// ハイライトが存在する本を VolumeID で重複なく取得
+			for (const { db } of databases) {
+				const repo = new Repository(db);
+				for (const book of await repo.getBooksWithBookmarks()) {
+					if (!books.has(book.volumeId)) books.set(book.volumeId, book);
+				}
+				for (const book of await repo.getAllBookDetails()) {
+					if (book.volumeId && !details.has(book.volumeId)) details.set(book.volumeId, book);
+				}
+			}
+		} finally {
+			databases.forEach(({ db }) => db.close());
+		}
+		const bookRefs = Array.from(books.values()).sort((a, b) => a.title.localeCompare(b.title));
+		this.bookTitles = new Map(bookRefs.map((b) => [b.volumeId, b.title]));
+		this.bookDetails = details;
+		await this.rekeyTitleKeyedSettings(bookRefs);
+
+		const content = await this.getHighlightsByBook();
+
+		return Promise.all(
+			bookRefs.map(async (book) => {
+				const fileName = this.bookNotePath(book.volumeId);
+				const hasNote = await this.app.vault.adapter.exists(fileName);
+				const noteContent = hasNote ? await this.app.vault.adapter.read(fileName) : "";
+				const chapters = content.get(book.volumeId) ?? new Map<chapter, Bookmark[]>();
+				const bookmarks = Array.from(chapters.values()).flat();
+				return bookListEntry(
+					book,
+					details.get(book.volumeId),
+					bookmarks.length,
+					hasNote,
+					countPendingHighlights(
+						bookmarks.map((b) => b.bookmarkId),
+						presentInNote(noteContent, chapters),
+						new Set(Object.keys(this.settings.ignoredHighlights[book.volumeId] ?? {})),
+					),
+				);
+			}),
+		);
+	}
+
+	/**
+	 * Ignored highlights and import snapshots were saved by book title before
+	 * editions were told apart; move them to the VolumeID where the title is
+	 * unambiguous.
+	 */
+	private async rekeyTitleKeyedSettings(books: BookRef[]) {
+		const volumeIds = volumeIdsByTitle(books);
+		const ignoredHighlights = rekeyIgnored(this.settings.ignoredHighlights, volumeIds);
+		const importSnapshots = rekeySnapshots(this.settings.importSnapshots, volumeIds);
+		if (
+			ignoredHighlights === this.settings.ignoredHighlights &&
+			importSnapshots === this.settings.importSnapshots
+		) {
+			return;
+		}
+
+		this.settings.ignoredHighlights = ignoredHighlights;
+		this.settings.importSnapshots = importSnapshots;
+		await this.plugin.saveSettings();
+	}
+
+	private visibleBooks(entries: BookListEntry[]): BookListEntry[] {
+		return sortBooks(filterBooks(entries, this.bookFilter), this.bookSort);
+	}
+
+	private renderBookListControls(entries: BookListEntry[]) {
+		const controls = this.bookListContainerEl.createDiv({ cls: "kobo-book-filters" });
+		const rerender = () => this.renderBookRows(entries);
+
+		new Setting(controls).setName("Search").addSearch((cb) => {
+			cb.setPlaceholder("Title, author or series")
+				.setValue(this.bookFilter.query)
+				.onChange((value) => {
+					this.bookFilter.query = value;
+					rerender();
+				});
+		});
+
+		new Setting(controls)
+			.setName("Filter")
+			.addDropdown((cb) => {
+				cb.addOption("", "Any status");
+				for (const status of [ReadStatus.Unopened, ReadStatus.Reading, ReadStatus.Read]) {
+					cb.addOption(String(status), ReadStatus[status]);
+				}
+				cb.setValue(this.bookFilter.readStatus === undefined ? "" : String(this.bookFilter.readStatus))
+					.onChange((value) => {
+						this.bookFilter.readStatus = value === "" ? undefined : (Number(value) as ReadStatus);
+						rerender();
+					});
+			})
+			.addDropdown((cb) => {
+				cb.addOption("", "Any author");
+				distinctValues(entries, "author").forEach((a) => cb.addOption(a, a));
+				cb.setValue(this.bookFilter.author).onChange((value) => {
+					this.bookFilter.author = value;
+					rerender();
+				});
+			})
+			.addDropdown((cb) => {
+				cb.addOption("", "Any series");
+				distinctValues(entries, "series").forEach((s) => cb.addOption(s, s));
+				cb.setValue(this.bookFilter.series).onChange((value) => {
+					this.bookFilter.series = value;
+					rerender();
+				});
+			})
+			.addToggle((cb) => {
+				cb.setTooltip("Only books with new highlights")
+					.setValue(this.bookFilter.newHighlightsOnly)
+					.onChange((value) => {
+						this.bookFilter.newHighlightsOnly = value;
+						rerender();
+					});
+			});
+
+		new Setting(controls).setName("Sort by").addDropdown((cb) => {
+			cb.addOption("title", "Title")
+				.addOption("lastRead", "Last read")
+				.addOption("highlights", "Highlight count")
+				.setValue(this.bookSort)
+				.onChange((value) => {
+					this.bookSort = value as BookListSort;
+					rerender();
+				});
 		});
+	}
+
+	private renderBookRows(entries: BookListEntry[]) {
+		this.bookRowsEl.empty();
+		this.goButtonEl.disabled = this.selectedBooks.size === 0;
+
+		const content = this.highlightsByBook ?? new Map<string, Map<chapter, Bookmark[]>>();
+		const visible = this.visibleBooks(entries);
+		if (visible.length === 0) {
+			this.bookRowsEl.createEl("p", { text: "No books match the filters." });
+			return;
+		}
+
+		const newOnes = visible.filter((e) => !e.hasNote);
+		const already = visible.filter((e) => e.hasNote);
+
+		const renderSection = (title: string, items: BookListEntry[], badgeText: string) => {
+			if (items.length === 0) return;
 
-		const renderSection = (title: string, items: string[], badgeText: string) => {
-			const section = this.bookListContainerEl.createDiv({ cls: "kobo-book-section" });
+			const section = this.bookRowsEl.createDiv({ cls: "kobo-book-section" });
 			section.createDiv({
 				cls: "kobo-section-title",
 				text: `${title} (${items.length})`,
 			});
 
-			items.forEach((bookTitle) => {
-				const sanitizedBookName = sanitize(bookTitle);
-				const fileName = normalizePath(`${folderPath}/${sanitizedBookName}.md`);
+			items.forEach((entry) => {
+				const bookId = entry.id;
+				const fileName = this.bookNotePath(bookId);
 				const stats = this.readCachedStats(fileName);
-				const badgeTextWithStats = stats
+				let badgeTextWithStats = stats
 					? `${badgeText}  H:${stats.highlights_total}  I:${stats.insights_created}`
 					: badgeText;
+				if (stats && stats.insights_dangling > 0) {
+					badgeTextWithStats += `  Broken links:${stats.insights_dangling}`;
+				}
+				if (entry.newHighlights > 0) badgeTextWithStats += `  To import:${entry.newHighlights}`;
+				if (entry.ignoredHighlights > 0) badgeTextWithStats += `  Ignored:${entry.ignoredHighlights}`;
+				const changes = this.describeChangesSinceLastSync(bookId, content);
+				if (changes) badgeTextWithStats += `  (${changes})`;
 
 				const bookRow = section.createDiv({ cls: "kobo-book-row" });
 
 				const checkbox = bookRow.createEl("input", { type: "checkbox" });
-				checkbox.checked = this.selectedBooks.has(bookTitle);
+				checkbox.checked = this.selectedBooks.has(bookId);
 
-				const label = bookRow.createEl("label", { text: bookTitle, cls: "kobo-book-label" });
+				const label = bookRow.createEl("label", { text: entry.title, cls: "kobo-book-label" });
 
 				const badge = bookRow.createEl("span", {
 					text: badgeTextWithStats,
@@ -275,9 +815,9 @@ export class ExtractHighlightsModal extends Modal {
 
 				checkbox.addEventListener("change", () => {
 					if (checkbox.checked) {
-						this.selectedBooks.add(bookTitle);
+						this.selectedBooks.add(bookId);
 					} else {
-						this.selectedBooks.delete(bookTitle);
+						this.selectedBooks.delete(bookId);
 					}
 					this.goButtonEl.disabled = this.selectedBooks.size === 0;
 				});
@@ -286,9 +826,6 @@ export class ExtractHighlightsModal extends Modal {
 
 		renderSection("New (no intermediate note yet)", newOnes, "New");
 		renderSection("Already has intermediate note", already, "Synced");
-
-		new Notice(`${bookTitles.length} books with highlights found. new: ${newOnes.length} / synced: ${already.length}`);
-		db.close(); 
 	}
 
 	/**
@@ -298,6 +835,7 @@ export class ExtractHighlightsModal extends Modal {
 	private readCachedStats(filePath: string): {
 		highlights_total: number;
 		insights_created: number;
+		insights_dangling: number;
 	} | null {
 		const f = this.app.vault.getAbstractFileByPath(filePath);
 		if (!(f instanceof TFile)) return null;
@@ -311,7 +849,9 @@ export class ExtractHighlightsModal extends Modal {
 		const h = Number((ks as Record<string, unknown>)["highlights_total"]);
 		const i = Number((ks as Record<string, unknown>)["insights_created"]);
 		if ([h, i].some((n) => Number.isNaN(n))) return null;
-		return { highlights_total: h, insights_created: i };
+		// Older caches have no dangling count yet
+		const d = Number((ks as Record<string, unknown>)["insights_dangling"] ?? 0);
+		return { highlights_total: h, insights_created: i, insights_dangling: Number.isNaN(d) ? 0 : d };
 	}
 
 	/**
@@ -321,188 +861,151 @@ export class ExtractHighlightsModal extends Modal {
 	private async recomputeAndCacheStats(filePath: string): Promise<void> {
 		const f = this.app.vault.getAbstractFileByPath(filePath);
 		if (!(f instanceof TFile)) return;
-		const text = await this.app.vault.read(f);
-		const stats = this.computeIntermediateStats(text);
-		await this.app.fileManager.processFrontMatter(f, (fm) => {
-			const kobo = (fm.kobo_stats ??= {});
-			kobo.highlights_total = stats.highlights_total;
-			kobo.insights_created = stats.insights_created;
-			kobo.updated_at = new Date().toISOString();
-		});
+		await this.plugin.updateIntermediateNoteStats(f);
 	}
 
-	private computeIntermediateStats(text: string): {
-		highlights_total: number;
-		insights_created: number;
-	} {
-		const highlights_total = (text.match(/^> \[!quote\]/gm) ?? []).length;
-		const insights_created = (
-			text.match(
-				new RegExp(
-					`^\\s*-\\s*${this.escapeForRegex(this.INSIGHT_LINK_PREFIX)}\\s*\\[\\[.+?\\]\\]`,
-					"gm",
-				),
-			) ?? []
-		).length;
-		return { highlights_total, insights_created };
+	private intermediateNotePath(bookTitle: string): string {
+		return normalizePath(`${this.intermediateFolder}/${sanitize(bookTitle)}.md`);
 	}
 
-	private escapeForRegex(s: string): string {
-		return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	/**
+	 * The book's inbox note: the one carrying its VolumeID or ISBN, wherever
+	 * it was moved to, else the note named after the title unless that one
+	 * is another edition's.
+	 */
+	private bookNotePath(bookId: string, details?: BookDetails): string {
+		this.noteIndex ??= this.app.vault
+			.getMarkdownFiles()
+			.map((f) => noteIdentity(f.path, this.app.metadataCache.getFileCache(f)?.frontmatter))
+			.filter((n): n is NoteIdentity => n !== null);
+
+		const isbn = (details ?? this.bookDetails.get(bookId))?.isbn;
+		return resolveBookNotePath(
+			this.noteIndex,
+			{ volumeId: bookId, isbn },
+			this.intermediateNotePath(this.bookTitle(bookId)),
+		);
+	}
+
+	// Later books of the same sync must not pick this book's note
+	private rememberBookNote(path: string, bookId: string, details: BookDetails) {
+		if (!this.noteIndex) return;
+		this.noteIndex = this.noteIndex.filter((n) => n.path !== path);
+		this.noteIndex.push({ path, volumeId: bookId, isbn: details.isbn });
 	}
 
 	// --- 中継ノートの生成または更新を行うメイン関数 ---
 	private async syncToIntermediateNote(
-		bookTitle: string,
-		service: HighlightService,
-		db: unknown
+		bookId: string,
+		picks: PickedHighlight[],
+		chapters: Map<chapter, Bookmark[]>,
+		knownIds: Set<string>,
+		templateErrors: Set<string>,
 	) {
-		// db: unknown → 使う直前で安全に扱う
-		const sqlDb = db as { exec: (q: string) => unknown };
-	
-		const sanitizedBookName = sanitize(bookTitle);
+		const bookmarks = Array.from(chapters.values()).flat();
+		const chapterOrder: ChapterOrder = Array.from(chapters, ([name, chapterBookmarks]) => [
+			name,
+			chapterBookmarks.map((b) => b.bookmarkId),
+		]);
+
 		const folderPath = this.intermediateFolder;
-		const fileName = normalizePath(`${folderPath}/${sanitizedBookName}.md`);
+		const bookDetails = await this.getBookDetails(bookId);
+		const fileName = this.bookNotePath(bookId, bookDetails);
+		this.rememberBookNote(fileName, bookId, bookDetails);
 	
 		if (!(await this.app.vault.adapter.exists(folderPath))) {
 			await this.app.vault.createFolder(folderPath);
 		}
 	
-		const escapedTitle = bookTitle.replace(/'/g, "''");
-		const highlightQuery = `
-			SELECT b.BookmarkID, b.Text, b.Annotation
-			FROM bookmark b
-			INNER JOIN content c ON b.VolumeID = c.ContentID
-			WHERE c.Title = '${escapedTitle}'
-				AND b.Text IS NOT NULL
-		`;
-	
-		const execResult = sqlDb.exec(highlightQuery);
-	
-		// sql.js の exec 結果を最低限でガード（any禁止なので unknown → narrowing）
-		const res = Array.isArray(execResult) ? execResult : null;
-		const first = res?.[0] as unknown;
-	
-		const values =
-			typeof first === "object" &&
-			first !== null &&
-			"values" in first &&
-			Array.isArray((first as { values: unknown }).values)
-				? (first as { values: unknown[] }).values
-				: null;
-
-	
-		if (!values || values.length === 0) {
-			console.debug(`No highlights found for ${bookTitle}`);
-			return;
-		}
-	
 		// 既存ファイル読み込み
 		const fileExists = await this.app.vault.adapter.exists(fileName);
-		const existingContent = fileExists
+		const originalContent = fileExists
 			? await this.app.vault.adapter.read(fileName)
-			: this.createNoteHeader(bookTitle);
-	
-		let newHighlightsText = "";
-		let addedCount = 0;
-	
-		for (const row of values) {
-			if (!Array.isArray(row)) continue;
-	
-			const id = String(row[0] ?? "");
-			const rawText = String(row[1] ?? "");
-			const annotation = String(row[2] ?? "");
-	
-			const calloutText = rawText
-				.trim()
-				.split("\n")
-				.map((line) => `> ${line}`)
-				.join("\n");
-	
-			const summary = rawText.replace(/\r?\n/g, "").slice(0, 30);
+			: renderNoteHeader(
+					await getTemplateContents(
+						this.app,
+						this.settings.noteHeaderTemplatePath,
+						defaultNoteHeaderTemplate,
+					),
+					{ bookDetails, syncDate: new Date().toISOString() },
+					templateErrors,
+				);
+		const blockTemplate = await getTemplateContents(
+			this.app,
+			this.settings.highlightBlockTemplatePath,
+			defaultHighlightBlockTemplate,
+		);
+
+		// Blocks already in the note follow edits made on the device
+		const { content: updatedBlocks, updates } = updateHighlightBlocks(
+			originalContent,
+			bookmarks,
+		);
+		const { content: existingContent, changed: deleted } = handleDeletedHighlights(
+			updatedBlocks,
+			knownIds,
+			this.settings.deletedHighlightPolicy,
+			this.loadedDevices,
+		);
 	
-			if (!existingContent.includes(`id: ${id}`)) {
-				let block =
-					`\n---\n` +
-					`> [!quote]- ${summary}...\n` +
-					`> <!-- id: ${id} -->\n` +
-					`${calloutText}\n` +
-					`> \n\n`;
+		const inNote = presentInNote(existingContent, chapters);
+		const newBlocks: NewBlock[] = [];
 	
-				if (annotation) block += `📝: ${annotation}\n\n`;
-				block += `- [ ] memo:: \n`;
+		for (const { bookmark, chapter, title } of picks) {
+			const id = bookmark.bookmarkId;
+			if (isIgnored(this.settings.ignoredHighlights, bookId, id)) continue;
+
+			const summary = title.trim() || `${bookmark.text.replace(/\r?\n/g, "").slice(0, 30)}...`;
 	
-				newHighlightsText += block;
-				addedCount++;
+			if (!inNote.has(id)) {
+				const block = renderHighlightBlock(blockTemplate, {
+					bookmark,
+					chapter,
+					bookDetails,
+					title: summary,
+				}, templateErrors);
+				newBlocks.push({ bookmarkId: id, chapter, text: block });
 			}
 		}
+		const addedCount = newBlocks.length;
 	
-		if (addedCount > 0) {
+		if (addedCount > 0 || updates.length > 0 || deleted.length > 0) {
 			const updatedContent =
-				existingContent.trimEnd() + "\n\n" + newHighlightsText.trim();
-			await this.app.vault.adapter.write(fileName, updatedContent);
+				addedCount > 0
+					? insertBlocksByChapter(existingContent, newBlocks, chapterOrder)
+					: existingContent;
+			// A new note goes through the vault so its frontmatter can be updated right away
+			const file = this.app.vault.getAbstractFileByPath(fileName);
+			if (file instanceof TFile) {
+				await this.app.vault.modify(file, updatedContent);
+			} else {
+				await this.app.vault.create(fileName, updatedContent);
+			}
 			await this.recomputeAndCacheStats(fileName);
-			new Notice(`${bookTitle}: ${addedCount}件追加完了`);
+			await this.updateBookFrontmatter(fileName, bookDetails);
+
+			const parts: string[] = [];
+			if (addedCount > 0) parts.push(`${addedCount}件追加`);
+			if (updates.length > 0) {
+				parts.push(`${updates.length}件更新: ${updates.map((u) => `「${u.title}」`).join(", ")}`);
+			}
+			if (deleted.length > 0) parts.push(`${deleted.length}件を端末で削除済みとして処理`);
+			new Notice(`${bookDetails.title}: ${parts.join(" / ")}`);
 			return;
 		}
 	
-		if (!fileExists) {
-			await this.app.vault.adapter.write(fileName, existingContent);
-			await this.recomputeAndCacheStats(fileName);
-			new Notice(`${bookTitle}: 中継ノートを作成しました（新着なし）`);
-		} else {
-			new Notice(`${bookTitle}: すべて同期済みです`);
-		}
-	}	
-
-  // 中継ノートの冒頭部分（ボタンを含む）を作成
-  private createNoteHeader(title: string): string {
-		const now = new Date().toISOString();
-		return `---
-title: "${title}"
-sync_date: ${now}
-kobo_stats:
-  highlights_total: 0
-  insights_created: 0
-  updated_at: ${now}
----
-
-\`\`\`kobo-inboxer
-\`\`\`
-
-# ${title}
-`;
-}
-	private async saveHighlightAsNote(bookTitle: string, bookmark: Bookmark, customTitle: string) {
-    // 1. ファイル名の決定
-    // カスタムタイトルがあればそれを使用、なければ本文の最初の15文字
-    let fileName = customTitle.trim() !== "" 
-        ? customTitle.trim() 
-        : bookmark.text.substring(0, 15).replace(/[\\/:*?"<>|]/g, "");
-    
-    // 重複を避けるためにタイムスタンプ等を付与しても良いですが、まずはシンプルに
-    const fullPath = normalizePath(`${this.intermediateFolder}/${sanitize(fileName)}.md`);
-
-    // 2. フロントマターと本文の組み立て（理想の構造）
-    const fileContent = `---
-title: "${customTitle || fileName}"
-book: "[[${bookTitle}]]"
-author: ""
-date: ${new Date().toISOString().split('T')[0]}
-tags: [kobo-highlight]
-location: "${bookmark.chapterProgress}"
----
-
-> [!quote]+ ${bookmark.text}
-${bookmark.annotation ? `\n${bookmark.annotation}\n` : ""}
-— *出典: ${bookTitle}*
-`;
-
-    // 3. 書き出し（既存ファイルがあれば上書き、またはNoticeを出す）
-    try {
-        await this.app.vault.adapter.write(fullPath, fileContent);
-    } catch (e) {
-        console.error("Failed to write file:", fullPath, e);
-    }
+		await this.updateBookFrontmatter(fileName, bookDetails);
+		new Notice(`${bookDetails.title}: すべて同期済みです`);
+	}
+
+	private async updateBookFrontmatter(filePath: string, bookDetails: BookDetails): Promise<void> {
+		const f = this.app.vault.getAbstractFileByPath(filePath);
+		if (!(f instanceof TFile)) return;
+
+		await this.app.fileManager.processFrontMatter(f, (fm) => {
+			Object.assign(fm, bookFrontmatter(bookDetails));
+			// The header template only writes it when the note is created
+			fm.sync_date = new Date().toISOString();
+		});
 	}
 }
@@ -0,0 +1,80 @@
+import { App, Modal, Setting } from "obsidian";
+import KoboHighlightPickerAndInboxer from "src/main";
+import { withoutIgnored } from "src/settings/ignoredHighlights";
+
+/**
+ * Lists the highlights rejected in the picker and lets the user bring them back.
+ */
+export class IgnoredHighlightsModal extends Modal {
+	private plugin: KoboHighlightPickerAndInboxer;
+	// Called on close so the caller can refresh its own counts
+	private onChange?: () => void;
+
+	constructor(app: App, plugin: KoboHighlightPickerAndInboxer, onChange?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onChange = onChange;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onChange?.();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName("Ignored highlights").setHeading();
+
+		const store = this.plugin.settings.ignoredHighlights;
+		// Keyed by VolumeID; older entries by title, which then has no bookTitle
+		const titleOf = (bookId: string) =>
+			Object.values(store[bookId]).find((e) => e.bookTitle)?.bookTitle ?? bookId;
+		const bookIds = Object.keys(store).sort((a, b) => titleOf(a).localeCompare(titleOf(b)));
+
+		if (bookIds.length === 0) {
+			contentEl.createEl("p", { text: "No ignored highlights." });
+			return;
+		}
+
+		const scrollArea = contentEl.createDiv({ cls: "kobo-highlight-scroll-area" });
+
+		for (const bookId of bookIds) {
+			const entries = Object.entries(store[bookId]);
+			const section = scrollArea.createDiv({ cls: "kobo-book-section" });
+
+			new Setting(section)
+				.setName(`${titleOf(bookId)} (${entries.length})`)
+				.addButton((cb) => {
+					cb.setButtonText("Un-ignore all").onClick(() => {
+						void this.unignore(bookId).catch(console.error);
+					});
+				});
+
+			for (const [bookmarkId, entry] of entries) {
+				new Setting(section)
+					.setDesc(entry.text)
+					.addButton((cb) => {
+						cb.setButtonText("Un-ignore").onClick(() => {
+							void this.unignore(bookId, bookmarkId).catch(console.error);
+						});
+					});
+			}
+		}
+	}
+
+	private async unignore(bookId: string, bookmarkId?: string) {
+		this.plugin.settings.ignoredHighlights = withoutIgnored(
+			this.plugin.settings.ignoredHighlights,
+			bookId,
+			bookmarkId,
+		);
+		await this.plugin.saveSettings();
+		this.render();
+	}
+}
@@ -0,0 +1,53 @@
+import { App, Modal, Setting } from "obsidian";
+
+export type InsightCollisionAction = "suffix" | "append" | "skip";
+
+/**
+ * Asks what to do when an insight note with the same name already exists.
+ * Closing the dialog without choosing skips the memo.
+ */
+export class InsightCollisionModal extends Modal {
+	private path: string;
+	private chosen: InsightCollisionAction = "skip";
+	private onDone?: () => void;
+
+	constructor(app: App, path: string) {
+		super(app);
+		this.path = path;
+	}
+
+	choose(): Promise<InsightCollisionAction> {
+		return new Promise((resolve) => {
+			this.onDone = () => resolve(this.chosen);
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName("Insight note already exists").setHeading();
+		contentEl.createEl("p", { text: this.path });
+
+		const buttonContainer = contentEl.createDiv({ cls: "kobo-button-container" });
+		const buttons: [string, InsightCollisionAction][] = [
+			["Skip this memo", "skip"],
+			["Add quote to existing note", "append"],
+			["Create numbered note", "suffix"],
+		];
+		for (const [text, action] of buttons) {
+			const btn = buttonContainer.createEl("button", { text });
+			if (action === "suffix") btn.addClass("mod-cta");
+			btn.addEventListener("click", () => {
+				this.chosen = action;
+				this.close();
+			});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onDone?.();
+	}
+}
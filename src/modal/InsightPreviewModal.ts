@@ -0,0 +1,152 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import KoboHighlightPickerAndInboxer from "src/main";
+import { combineCandidates, InsightCandidate } from "src/inbox/insightCandidate";
+import { FolderSuggest } from "src/settings/suggestors/FolderSuggest";
+
+/**
+ * Shows the insight notes that are about to be created and lets the user edit
+ * their titles and destinations, leave some out, or combine several highlights
+ * into one note, before anything is written.
+ */
+export class InsightPreviewModal extends Modal {
+	private plugin: KoboHighlightPickerAndInboxer;
+	private file: TFile;
+	private candidates: InsightCandidate[];
+	private excluded = new Set<InsightCandidate>();
+	// combined candidate -> the candidates it replaced, for "Split"
+	private combinedFrom = new Map<InsightCandidate, InsightCandidate[]>();
+
+	constructor(
+		app: App,
+		plugin: KoboHighlightPickerAndInboxer,
+		file: TFile,
+		candidates: InsightCandidate[],
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+		this.candidates = candidates;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName("Review insight notes").setHeading();
+
+		const scrollArea = contentEl.createDiv({ cls: "kobo-highlight-scroll-area" });
+		const buttonContainer = contentEl.createDiv({ cls: "kobo-button-container" });
+		const combineBtn = buttonContainer.createEl("button", {
+			text: "Combine checked into one note",
+		});
+		const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+		const createBtn = buttonContainer.createEl("button", { cls: "mod-cta" });
+
+		const updateCreateButton = () => {
+			const count = this.candidates.length - this.excluded.size;
+			createBtn.setText(`Create ${count} insight note${count === 1 ? "" : "s"}`);
+			createBtn.disabled = count === 0;
+			combineBtn.disabled = count < 2;
+		};
+
+		for (const candidate of this.candidates) {
+			const row = scrollArea.createDiv({ cls: "kobo-highlight-row" });
+			const checkbox = row.createEl("input", { type: "checkbox" });
+			checkbox.checked = !this.excluded.has(candidate);
+
+			const body = row.createDiv({ cls: "kobo-highlight-body" });
+			for (const source of candidate.sources) {
+				body.createDiv({ cls: "kobo-highlight-text", text: source.quote });
+			}
+			if (candidate.body) {
+				body.createDiv({ cls: "kobo-highlight-note", text: `memo: ${candidate.body}` });
+			}
+			if (candidate.sources.some((s) => s.quote.trim().length === 0)) {
+				body.createDiv({
+					cls: "kobo-highlight-hint",
+					text: "No quote found above a memo; it will be skipped.",
+				});
+			}
+
+			const titleInput = body.createEl("input", {
+				type: "text",
+				cls: "kobo-highlight-title",
+				placeholder: "Title",
+			});
+			titleInput.value = candidate.title;
+
+			const folderInput = body.createEl("input", {
+				type: "text",
+				cls: "kobo-highlight-title",
+				placeholder: "Destination folder",
+			});
+			folderInput.value = candidate.folder;
+			new FolderSuggest(this.app, folderInput);
+
+			const pathHint = body.createDiv({ cls: "kobo-highlight-note" });
+			const updatePathHint = () => {
+				const path = this.plugin.insightNotePath(candidate.title, candidate.folder);
+				pathHint.setText(path ? `→ ${path}` : "No title; nothing will be created.");
+			};
+			updatePathHint();
+
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.excluded.delete(candidate);
+				} else {
+					this.excluded.add(candidate);
+				}
+				updateCreateButton();
+			});
+			titleInput.addEventListener("input", () => {
+				candidate.title = titleInput.value;
+				updatePathHint();
+			});
+			folderInput.addEventListener("input", () => {
+				candidate.folder = folderInput.value.trim();
+				updatePathHint();
+			});
+
+			const parts = this.combinedFrom.get(candidate);
+			if (parts) {
+				const splitBtn = row.createEl("button", { text: "Split" });
+				splitBtn.addEventListener("click", () => {
+					this.candidates.splice(this.candidates.indexOf(candidate), 1, ...parts);
+					this.combinedFrom.delete(candidate);
+					this.render();
+				});
+			}
+		}
+
+		updateCreateButton();
+		combineBtn.addEventListener("click", () => {
+			const checked = this.candidates.filter((c) => !this.excluded.has(c));
+			const combined = combineCandidates(checked);
+			this.combinedFrom.set(combined, checked);
+			this.candidates.splice(this.candidates.indexOf(checked[0]), 0, combined);
+			this.candidates = this.candidates.filter((c) => !checked.includes(c));
+			this.render();
+		});
+		cancelBtn.addEventListener("click", () => this.close());
+		createBtn.addEventListener("click", () => {
+			const confirmed = this.candidates.filter((c) => !this.excluded.has(c));
+			createBtn.disabled = true;
+			this.plugin
+				.applyInsightCandidates(this.file, confirmed)
+				.then(() => this.close())
+				.catch((e) => {
+					console.error(e);
+					new Notice("Failed to create insight notes.");
+					createBtn.disabled = false;
+				});
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
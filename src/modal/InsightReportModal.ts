@@ -0,0 +1,78 @@
+import { App, Modal, Setting } from "obsidian";
+
+// Outcome of generating insight notes from one inbox note
+export interface InsightReport {
+	bookTitle: string;
+	path: string;
+	created: number;
+	// checked memos that did not produce a note (no quote above, empty title)
+	skipped: number;
+	// existing insight notes whose names the new ones clashed with
+	collisions: string[];
+}
+
+/**
+ * Consolidated result of "Generate insights from all inbox notes", one row per book.
+ */
+export class InsightReportModal extends Modal {
+	private reports: InsightReport[];
+
+	constructor(app: App, reports: InsightReport[]) {
+		super(app);
+		this.reports = reports;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName("Insight generation report").setHeading();
+
+		if (this.reports.length === 0) {
+			contentEl.createEl("p", { text: "There's no memos you can extract." });
+			return;
+		}
+
+		let created = 0;
+		let skipped = 0;
+		let collisions = 0;
+		for (const report of this.reports) {
+			created += report.created;
+			skipped += report.skipped;
+			collisions += report.collisions.length;
+		}
+		contentEl.createEl("p", {
+			text: `${created} created, ${skipped} skipped, ${collisions} collisions in ${this.reports.length} books`,
+		});
+
+		const scrollArea = contentEl.createDiv({ cls: "kobo-highlight-scroll-area" });
+
+		for (const report of this.reports) {
+			const section = scrollArea.createDiv({ cls: "kobo-book-section" });
+
+			new Setting(section)
+				.setName(report.bookTitle)
+				.setDesc(
+					`Created: ${report.created} · Skipped: ${report.skipped} · ` +
+						`Collisions: ${report.collisions.length}`,
+				)
+				.addButton((cb) => {
+					cb.setButtonText("Open").onClick(() => {
+						void this.app.workspace.openLinkText(report.path, "", false);
+						this.close();
+					});
+				});
+
+			for (const path of report.collisions) {
+				section.createDiv({
+					cls: "kobo-highlight-note",
+					text: `Already existed: ${path}`,
+				});
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -1,17 +1,54 @@
 import { App, PluginSettingTab, Setting, normalizePath } from "obsidian";
 import KoboHighlightPickerAndInboxer from "src/main";
+import { ImportSnapshots } from "src/database/snapshot";
+import { DeviceProfile } from "src/device/koboDevice";
+import { ExtractionJournal } from "src/inbox/extractionJournal";
+import { DeletedHighlightPolicy } from "src/inbox/highlightBlock";
+import { ProcessedMemoStyle } from "src/inbox/memo";
+import { IgnoredHighlightsModal } from "src/modal/IgnoredHighlightsModal";
+import { IgnoredHighlights } from "./ignoredHighlights";
+import { FileSuggest } from "./suggestors/FileSuggest";
 import { FolderSuggest } from "./suggestors/FolderSuggest";
 
+// What to do when an insight note with the same name already exists
+export type InsightCollisionPolicy = "suffix" | "append" | "prompt";
+
 export interface KoboHighlightPickerAndInboxerSettings {
   intermediateFolder: string;
   insightFolder: string;
   sortByChapterProgress: boolean;
+  // Vault paths of Eta templates; empty means the built-in default
+  noteHeaderTemplatePath: string;
+  highlightBlockTemplatePath: string;
+  insightTemplatePath: string;
+  koboMountPath: string;
+  // Named devices; when set, they replace koboMountPath
+  devices: DeviceProfile[];
+  deletedHighlightPolicy: DeletedHighlightPolicy;
+  insightCollisionPolicy: InsightCollisionPolicy;
+  processedMemoStyle: ProcessedMemoStyle;
+  ignoredHighlights: IgnoredHighlights;
+  // Digest of each book's highlights at its last sync, used to show what changed
+  importSnapshots: ImportSnapshots;
+  // What the last insight extraction changed, for "Undo last extraction"
+  lastExtraction: ExtractionJournal | null;
 }
 
 export const DEFAULT_SETTINGS: KoboHighlightPickerAndInboxerSettings = {
   intermediateFolder: "kobo-inboxes",
   insightFolder: "kobo-insights",
   sortByChapterProgress: false,
+  noteHeaderTemplatePath: "",
+  highlightBlockTemplatePath: "",
+  insightTemplatePath: "",
+  koboMountPath: "",
+  devices: [],
+  deletedHighlightPolicy: "leave",
+  insightCollisionPolicy: "suffix",
+  processedMemoStyle: "clear",
+  ignoredHighlights: {},
+  importSnapshots: {},
+  lastExtraction: null,
 };
 
 export class KoboHighlightPickerAndInboxerSettingsTab extends PluginSettingTab {
@@ -27,6 +64,15 @@ export class KoboHighlightPickerAndInboxerSettingsTab extends PluginSettingTab {
     this.addIntermediateFolder();
     this.addInsightFolder();
     this.addSortByChapterProgress();
+    this.addNoteHeaderTemplatePath();
+    this.addHighlightBlockTemplatePath();
+    this.addInsightTemplatePath();
+    this.addKoboMountPath();
+    this.addDevices();
+    this.addDeletedHighlightPolicy();
+    this.addInsightCollisionPolicy();
+    this.addProcessedMemoStyle();
+    this.addIgnoredHighlights();
   }
 
   private addIntermediateFolder(): void {
@@ -75,7 +121,7 @@ export class KoboHighlightPickerAndInboxerSettingsTab extends PluginSettingTab {
     new Setting(this.containerEl)
       .setName("Sort by chapter progress")
       .setDesc(
-        "Turn on to sort highlights by chapter progress. If turned off, highlights are sorted by creation date and time."
+        "Highlights are grouped by chapter in reading order. Turn on to sort highlights within a chapter by their position; if turned off, they are sorted by creation date and time."
       )
       .addToggle((cb) => {
         cb.setValue(this.plugin.settings.sortByChapterProgress).onChange((toggle) => {
@@ -88,4 +134,231 @@ export class KoboHighlightPickerAndInboxerSettingsTab extends PluginSettingTab {
     this.plugin.settings.sortByChapterProgress = toggle;
     await this.plugin.saveSettings();
   }
+
+  private addNoteHeaderTemplatePath(): void {
+    new Setting(this.containerEl)
+      .setName("Intermediate note header template")
+      .setDesc(
+        "Eta template for the top of new intermediate notes. Available: it.bookDetails, it.syncDate. Leave empty for the default."
+      )
+      .addSearch((cb) => {
+        new FileSuggest(this.app, cb.inputEl);
+
+        cb.setPlaceholder("Example: templates/kobo-inbox-header.md")
+          .setValue(this.plugin.settings.noteHeaderTemplatePath)
+          .onChange((path) => {
+            void this.saveNoteHeaderTemplatePath(path).catch(console.error);
+          });
+      });
+  }
+
+  private async saveNoteHeaderTemplatePath(path: string): Promise<void> {
+    this.plugin.settings.noteHeaderTemplatePath = (path ?? "").trim();
+    await this.plugin.saveSettings();
+  }
+
+  private addHighlightBlockTemplatePath(): void {
+    new Setting(this.containerEl)
+      .setName("Highlight block template")
+      .setDesc(
+        "Eta template for each highlight in an intermediate note. Available: it.bookmark, it.chapter, it.bookDetails, it.title, it.quote, it.annotation. Must output it.idMarker. Leave empty for the default."
+      )
+      .addSearch((cb) => {
+        new FileSuggest(this.app, cb.inputEl);
+
+        cb.setPlaceholder("Example: templates/kobo-highlight.md")
+          .setValue(this.plugin.settings.highlightBlockTemplatePath)
+          .onChange((path) => {
+            void this.saveHighlightBlockTemplatePath(path).catch(console.error);
+          });
+      });
+  }
+
+  private async saveHighlightBlockTemplatePath(path: string): Promise<void> {
+    this.plugin.settings.highlightBlockTemplatePath = (path ?? "").trim();
+    await this.plugin.saveSettings();
+  }
+
+  private addInsightTemplatePath(): void {
+    new Setting(this.containerEl)
+      .setName("Insight note template")
+      .setDesc(
+        "Eta template for insight notes. Available: it.title, it.memo, it.quote, it.quoteLines, it.bookTitle, it.author, it.chapter, it.bookmarkId, it.highlightDate, it.chapterProgress, it.color, it.annotationDate, it.inboxNote, it.created, it.sources (each with quote, quoteLines, chapter, bookmarkId, highlightDate, color), it.yaml(). Leave empty for the default."
+      )
+      .addSearch((cb) => {
+        new FileSuggest(this.app, cb.inputEl);
+
+        cb.setPlaceholder("Example: templates/kobo-insight.md")
+          .setValue(this.plugin.settings.insightTemplatePath)
+          .onChange((path) => {
+            void this.saveInsightTemplatePath(path).catch(console.error);
+          });
+      });
+  }
+
+  private async saveInsightTemplatePath(path: string): Promise<void> {
+    this.plugin.settings.insightTemplatePath = (path ?? "").trim();
+    await this.plugin.saveSettings();
+  }
+
+  private addKoboMountPath(): void {
+    new Setting(this.containerEl)
+      .setName("Kobo device path")
+      .setDesc(
+        "Mount path of your Kobo (e.g. /Volumes/KOBOeReader or E:\\). Leave empty to scan the usual mount locations."
+      )
+      .addText((cb) => {
+        cb.setPlaceholder("Auto-detect")
+          .setValue(this.plugin.settings.koboMountPath)
+          .onChange((value) => {
+            void this.saveKoboMountPath(value).catch(console.error);
+          });
+      });
+  }
+
+  private async saveKoboMountPath(value: string): Promise<void> {
+    this.plugin.settings.koboMountPath = (value ?? "").trim();
+    await this.plugin.saveSettings();
+  }
+
+  private addDevices(): void {
+    new Setting(this.containerEl)
+      .setName("Kobo devices")
+      .setDesc(
+        "Several Kobos can feed the same inbox notes. Highlights are tagged with the device name, and the same highlight on two devices is imported once. Once a device is added, the device path above is no longer used."
+      )
+      .addButton((cb) => {
+        cb.setButtonText("Add device").onClick(() => {
+          void this.saveDevices([
+            ...this.plugin.settings.devices,
+            { name: `Kobo ${this.plugin.settings.devices.length + 1}`, mountPath: "" },
+          ])
+            .then(() => this.display())
+            .catch(console.error);
+        });
+      });
+
+    this.plugin.settings.devices.forEach((device, index) => {
+      new Setting(this.containerEl)
+        .setDesc(device.lastDbPath ? `Last read from ${device.lastDbPath}` : "Not read yet")
+        .addText((cb) => {
+          cb.setPlaceholder("Name")
+            .setValue(device.name)
+            .onChange((value) => {
+              void this.updateDevice(index, { name: value.trim() }).catch(console.error);
+            });
+        })
+        .addText((cb) => {
+          cb.setPlaceholder("Mount path or KoboReader.sqlite")
+            .setValue(device.mountPath)
+            .onChange((value) => {
+              void this.updateDevice(index, { mountPath: value.trim() }).catch(console.error);
+            });
+        })
+        .addExtraButton((cb) => {
+          cb.setIcon("trash")
+            .setTooltip("Remove device")
+            .onClick(() => {
+              void this.saveDevices(this.plugin.settings.devices.filter((_, i) => i !== index))
+                .then(() => this.display())
+                .catch(console.error);
+            });
+        });
+    });
+  }
+
+  private async updateDevice(index: number, change: Partial<DeviceProfile>): Promise<void> {
+    await this.saveDevices(
+      this.plugin.settings.devices.map((d, i) => (i === index ? { ...d, ...change } : d)),
+    );
+  }
+
+  private async saveDevices(devices: DeviceProfile[]): Promise<void> {
+    this.plugin.settings.devices = devices;
+    await this.plugin.saveSettings();
+  }
+
+  private addDeletedHighlightPolicy(): void {
+    new Setting(this.containerEl)
+      .setName("Highlights deleted on the device")
+      .setDesc(
+        "What to do with inbox blocks whose highlight no longer exists on the Kobo. Blocks with an insight link are never touched."
+      )
+      .addDropdown((cb) => {
+        cb.addOptions({
+          leave: "Leave them",
+          tag: "Tag as deleted-on-device",
+          archive: "Move to an archive section",
+        })
+          .setValue(this.plugin.settings.deletedHighlightPolicy)
+          .onChange((value) => {
+            void this.saveDeletedHighlightPolicy(value as DeletedHighlightPolicy).catch(console.error);
+          });
+      });
+  }
+
+  private async saveDeletedHighlightPolicy(policy: DeletedHighlightPolicy): Promise<void> {
+    this.plugin.settings.deletedHighlightPolicy = policy;
+    await this.plugin.saveSettings();
+  }
+
+  private addInsightCollisionPolicy(): void {
+    new Setting(this.containerEl)
+      .setName("Insight note name collisions")
+      .setDesc(
+        "What to do when an insight note with the same title already exists. The insight link always points at the note that holds the new quote."
+      )
+      .addDropdown((cb) => {
+        cb.addOptions({
+          suffix: "Create a numbered note (Title 2)",
+          append: "Add the quote to the existing note",
+          prompt: "Ask every time",
+        })
+          .setValue(this.plugin.settings.insightCollisionPolicy)
+          .onChange((value) => {
+            void this.saveInsightCollisionPolicy(value as InsightCollisionPolicy).catch(console.error);
+          });
+      });
+  }
+
+  private async saveInsightCollisionPolicy(policy: InsightCollisionPolicy): Promise<void> {
+    this.plugin.settings.insightCollisionPolicy = policy;
+    await this.plugin.saveSettings();
+  }
+
+  private addProcessedMemoStyle(): void {
+    new Setting(this.containerEl)
+      .setName("Processed memos")
+      .setDesc("What to leave in the inbox note once a memo has become an insight note.")
+      .addDropdown((cb) => {
+        cb.addOptions({
+          clear: "Reset to an empty memo",
+          strike: "Keep it struck through",
+          done: "Keep it checked with the date",
+        })
+          .setValue(this.plugin.settings.processedMemoStyle)
+          .onChange((value) => {
+            void this.saveProcessedMemoStyle(value as ProcessedMemoStyle).catch(console.error);
+          });
+      });
+  }
+
+  private async saveProcessedMemoStyle(style: ProcessedMemoStyle): Promise<void> {
+    this.plugin.settings.processedMemoStyle = style;
+    await this.plugin.saveSettings();
+  }
+
+  private addIgnoredHighlights(): void {
+    const total = Object.values(this.plugin.settings.ignoredHighlights)
+      .reduce((n, book) => n + Object.keys(book).length, 0);
+
+    new Setting(this.containerEl)
+      .setName("Ignored highlights")
+      .setDesc(`Highlights rejected in the picker are never offered again. Currently ignored: ${total}.`)
+      .addButton((cb) => {
+        cb.setButtonText("Review").onClick(() => {
+          new IgnoredHighlightsModal(this.app, this.plugin, () => this.display()).open();
+        });
+      });
+  }
 }
@@ -0,0 +1,73 @@
+import { Bookmark } from "../database/interfaces";
+
+export interface IgnoredHighlight {
+  // Kept so the review list can show what was rejected without the Kobo DB
+  text: string;
+  bookTitle?: string;
+  ignoredAt: string;
+}
+
+// VolumeID (book title for entries saved by older versions) -> BookmarkID -> entry
+export type IgnoredHighlights = Record<string, Record<string, IgnoredHighlight>>;
+
+export function isIgnored(store: IgnoredHighlights, bookId: string, bookmarkId: string): boolean {
+  return bookmarkId in (store[bookId] ?? {});
+}
+
+export function countIgnored(store: IgnoredHighlights, bookId: string): number {
+  return Object.keys(store[bookId] ?? {}).length;
+}
+
+/**
+ * Returns a new store with the bookmark added.
+ * The store is never mutated in place, so DEFAULT_SETTINGS stays untouched.
+ */
+export function withIgnored(
+  store: IgnoredHighlights,
+  bookId: string,
+  bookmark: Bookmark,
+  bookTitle: string,
+): IgnoredHighlights {
+  return {
+    ...store,
+    [bookId]: {
+      ...(store[bookId] ?? {}),
+      [bookmark.bookmarkId]: {
+        text: bookmark.text,
+        bookTitle,
+        ignoredAt: new Date().toISOString(),
+      },
+    },
+  };
+}
+
+/**
+ * Returns a new store with the entries saved under a book title moved to the
+ * book's VolumeID (see volumeIdsByTitle), keeping the title for display.
+ */
+export function rekeyIgnored(store: IgnoredHighlights, volumeIds: Map<string, string>): IgnoredHighlights {
+  let result = store;
+  for (const [title, volumeId] of volumeIds) {
+    const { [title]: legacy, ...rest } = result;
+    if (!legacy || title === volumeId) continue;
+
+    const moved: Record<string, IgnoredHighlight> = {};
+    for (const [id, entry] of Object.entries(legacy)) {
+      moved[id] = { bookTitle: title, ...entry };
+    }
+    result = { ...rest, [volumeId]: { ...moved, ...(rest[volumeId] ?? {}) } };
+  }
+  return result;
+}
+
+/**
+ * Returns a new store without the given bookmark (or without the whole book
+ * when bookmarkId is omitted). Books left without entries are dropped.
+ */
+export function withoutIgnored(store: IgnoredHighlights, bookId: string, bookmarkId?: string): IgnoredHighlights {
+  const { [bookId]: book, ...rest } = store;
+  if (!book || bookmarkId === undefined) return rest;
+
+  const { [bookmarkId]: _removed, ...remaining } = book;
+  return Object.keys(remaining).length > 0 ? { ...rest, [bookId]: remaining } : rest;
+}
@@ -0,0 +1,33 @@
+import { AbstractInputSuggest, App, TFile } from "obsidian";
+
+export class FileSuggest extends AbstractInputSuggest<TFile> {
+  private inputEl: HTMLInputElement;
+
+  constructor(app: App, inputEl: HTMLInputElement) {
+    super(app, inputEl);
+    this.inputEl = inputEl;
+  }
+
+  getSuggestions(query: string): TFile[] {
+    const q = query.toLowerCase();
+
+    const files = this.app.vault.getMarkdownFiles();
+
+    // 空入力なら上位から少しだけ見せる
+    if (!q) return files.slice(0, 50);
+
+    return files
+      .filter((f) => f.path.toLowerCase().includes(q))
+      .slice(0, 50);
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.setText(file.path);
+  }
+
+  selectSuggestion(file: TFile): void {
+    this.inputEl.value = file.path;
+    this.inputEl.trigger("input");
+    this.close();
+  }
+}
@@ -1,7 +1,18 @@
 import * as chai from "chai";
-import { applyTemplateTransformations, defaultTemplate } from "./template";
+import {
+	applyTemplateTransformations,
+	bookFrontmatter,
+	defaultHighlightBlockTemplate,
+	defaultInsightNoteTemplate,
+	defaultNoteHeaderTemplate,
+	defaultTemplate,
+	renderAdditionalSource,
+	renderHighlightBlock,
+	renderInsightNote,
+	renderNoteHeader,
+} from "./template";
 import { chapter } from "../database/Highlight";
-import { Bookmark } from "../database/interfaces";
+import { Bookmark, ReadStatus } from "../database/interfaces";
 
 describe("template", async function () {
 	const testDate = new Date("2023-01-01T12:00:00Z");
@@ -209,4 +220,264 @@ test2
 			chai.expect(normalize(content)).equal(normalize(t[1]));
 		});
 	}
+
+	describe("intermediate note templates", function () {
+		const bookDetails = { title: "test title", author: "test" };
+		const bookmark = chapters.get("Chapter 2")![0];
+
+		it("renderNoteHeader default", function () {
+			chai.expect(
+				renderNoteHeader(defaultNoteHeaderTemplate, {
+					bookDetails,
+					syncDate: "2023-01-01T12:00:00.000Z",
+				}),
+			).equal(
+				[
+					"---",
+					'title: "test title"',
+					"sync_date: 2023-01-01T12:00:00.000Z",
+					"kobo_stats:",
+					"  highlights_total: 0",
+					"  insights_created: 0",
+					"  updated_at: 2023-01-01T12:00:00.000Z",
+					"---",
+					"",
+					"```kobo-inboxer",
+					"```",
+					"",
+					"# test title",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("bookFrontmatter", function () {
+			chai.expect(bookFrontmatter(bookDetails)).deep.equal({});
+			chai.expect(bookFrontmatter({ ...bookDetails, volumeId: "vol-1" })).deep.equal({
+				kobo_volume_id: "vol-1",
+			});
+			chai.expect(
+				bookFrontmatter({
+					...bookDetails,
+					volumeId: "file:///mnt/onboard/dune.epub",
+					publisher: "pub",
+					isbn: "9780000000000",
+					series: "Saga",
+					seriesNumber: 2,
+					readStatus: ReadStatus.Reading,
+					percentRead: 42,
+					dateLastRead: new Date("2024-05-01T10:00:00.000Z"),
+					timeSpentReading: 3600,
+				}),
+			).deep.equal({
+				kobo_volume_id: "file:///mnt/onboard/dune.epub",
+				author: "test",
+				publisher: "pub",
+				isbn: "9780000000000",
+				series: "Saga",
+				series_number: 2,
+				read_status: "Reading",
+				percent_read: 42,
+				last_read: "2024-05-01T10:00:00.000Z",
+				time_spent_reading: 3600,
+			});
+		});
+
+		it("renderHighlightBlock default", function () {
+			const data = { bookmark, chapter: "Chapter 2", bookDetails, title: "my title" };
+
+			chai.expect(renderHighlightBlock(defaultHighlightBlockTemplate, data)).equal(
+				[
+					"---",
+					"> [!quote]- my title",
+					"> <!-- id: 1 -->",
+					'> <!-- meta: {"chapter":"Chapter 2","created":"2023-01-01T12:00:00.000Z"} -->',
+					"> test2",
+					"> ",
+					"",
+					"📝: note2",
+					"",
+					"- [ ] memo:: ",
+				].join("\n"),
+			);
+			chai.expect(
+				renderHighlightBlock(defaultHighlightBlockTemplate, {
+					...data,
+					bookmark: { ...bookmark, note: undefined },
+				}),
+			).equal(
+				[
+					"---",
+					"> [!quote]- my title",
+					"> <!-- id: 1 -->",
+					'> <!-- meta: {"chapter":"Chapter 2","created":"2023-01-01T12:00:00.000Z"} -->',
+					"> test2",
+					"> ",
+					"",
+					"- [ ] memo:: ",
+				].join("\n"),
+			);
+		});
+
+		it("renderHighlightBlock custom", function () {
+			const rendered = renderHighlightBlock(
+				`> [!quote] <%= it.chapter %> · <%= it.bookDetails.author %>
+<%= it.idMarker %>
+<%= it.quote %>
+
+- [ ] memo:: `,
+				{ bookmark, chapter: "Chapter 2", bookDetails, title: "t" },
+			);
+
+			chai.expect(rendered).equal(
+				"> [!quote] Chapter 2 · test\n> <!-- id: 1 -->\n> test2\n\n- [ ] memo:: ",
+			);
+		});
+
+		it("renderHighlightBlock falls back when the id marker is missing", function () {
+			const data = { bookmark, chapter: "Chapter 2", bookDetails, title: "my title" };
+
+			chai.expect(renderHighlightBlock("<%= it.quote %>", data)).equal(
+				renderHighlightBlock(defaultHighlightBlockTemplate, data),
+			);
+		});
+
+		it("falls back to the default templates when a template fails", function () {
+			const data = { bookmark, chapter: "Chapter 2", bookDetails, title: "my title" };
+			const header = { bookDetails, syncDate: "2023-01-01T12:00:00.000Z" };
+			const errors = new Set<string>();
+
+			chai.expect(renderHighlightBlock("<%= it.quote", data, errors)).equal(
+				renderHighlightBlock(defaultHighlightBlockTemplate, data),
+			);
+			chai.expect(renderNoteHeader("<%= it.missing.field %>", header, errors)).equal(
+				renderNoteHeader(defaultNoteHeaderTemplate, header),
+			);
+			chai.expect(Array.from(errors).map((e) => e.split(":")[0])).deep.equal([
+				"highlight block",
+				"note header",
+			]);
+		});
+	});
+
+	describe("insight note templates", function () {
+		const data = {
+			title: 'A "quoted" thought',
+			quote: "line one\nline two",
+			bookTitle: "test title",
+			author: "test",
+			chapter: "Chapter 1",
+			bookmarkId: "abc-1",
+			highlightDate: "2023-01-01",
+			inboxNote: "kobo-inboxes/test title",
+			created: "2023-02-01",
+		};
+
+		it("renderInsightNote default", function () {
+			chai.expect(renderInsightNote(defaultInsightNoteTemplate, data)).equal(
+				[
+					"---",
+					'title: "A \\"quoted\\" thought"',
+					'book: "[[test title]]"',
+					'bookmark: "abc-1"',
+					'chapter: "Chapter 1"',
+					"highlighted: 2023-01-01",
+					"created: 2023-02-01",
+					"---",
+					"",
+					'> [!quote] A "quoted" thought',
+					"> line one",
+					"> line two",
+					">",
+					"> <cite>— *test title*, Chapter 1</cite>",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("renderInsightNote default with a long memo", function () {
+			chai.expect(
+				renderInsightNote(defaultInsightNoteTemplate, { ...data, memo: "first\nsecond" }),
+			).satisfy((s: string) =>
+				s.endsWith("> <cite>— *test title*, Chapter 1</cite>\n\nfirst\nsecond\n"),
+			);
+		});
+
+		it("renderInsightNote default with several highlights", function () {
+			const rendered = renderInsightNote(defaultInsightNoteTemplate, {
+				...data,
+				sources: [
+					{ quote: "line one\nline two", chapter: "Chapter 1" },
+					{ quote: "other", chapter: "Chapter 2" },
+				],
+			});
+
+			chai.expect(rendered.split("---\n\n")[1]).equal(
+				[
+					'> [!quote] A "quoted" thought',
+					"> line one",
+					"> line two",
+					">",
+					"> <cite>— *test title*, Chapter 1</cite>",
+					"",
+					"> [!quote]",
+					"> other",
+					">",
+					"> <cite>— *test title*, Chapter 2</cite>",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("renderInsightNote default without bookmark", function () {
+			chai.expect(
+				renderInsightNote(defaultInsightNoteTemplate, { ...data, bookmarkId: undefined }),
+			).not.contains("bookmark:");
+		});
+
+		it("renderAdditionalSource", function () {
+			chai.expect(renderAdditionalSource(data)).equal(
+				[
+					"",
+					"> [!quote] Additional source",
+					"> line one",
+					"> line two",
+					">",
+					"> <cite>— *test title*, Chapter 1</cite>",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("renderInsightNote custom", function () {
+			chai.expect(
+				renderInsightNote(
+					`---
+tags: [insight]
+author: <%= it.author %>
+source: "[[<%= it.inboxNote %>]]"
+---
+<%= it.chapter %> (<%= it.highlightDate %>)`,
+					data,
+				),
+			).equal(
+				`---
+tags: [insight]
+author: test
+source: "[[kobo-inboxes/test title]]"
+---
+Chapter 1 (2023-01-01)
+`,
+			);
+		});
+
+		it("renderInsightNote falls back to the default template when it fails", function () {
+			const errors = new Set<string>();
+
+			chai.expect(renderInsightNote("<%= it.sources[9].quote %>", data, errors)).equal(
+				renderInsightNote(defaultInsightNoteTemplate, data),
+			);
+			chai.expect(errors.size).equal(1);
+		});
+	});
 });
@@ -1,6 +1,15 @@
 import { Eta } from "eta";
 import { BookDetails, ReadStatus, Bookmark } from "../database/interfaces";
 import { chapter } from "../database/Highlight";
+import {
+	annotationText,
+	highlightIdMarker,
+	highlightMeta,
+	highlightMetaMarker,
+	quoteLines,
+} from "../inbox/highlightBlock";
+import { VOLUME_ID_KEY } from "../inbox/bookIdentity";
+import { ANNOTATION_PREFIX } from "../inbox/inboxNote";
 
 const eta = new Eta({ autoEscape: false, autoTrim: false });
 
@@ -66,3 +75,292 @@ export function applyTemplateTransformations(
 
 	return rendered.trim();
 }
+
+/**
+ * Render a user template, falling back to the default one when Eta throws on
+ * a syntax or runtime error. The error is added to `errors` so the caller can
+ * tell the user once, instead of a sync stopping halfway through its books.
+ */
+function renderOrDefault(
+	rawTemplate: string,
+	defaultTemplate: string,
+	data: object,
+	name: string,
+	errors?: Set<string>,
+): string {
+	try {
+		return eta.renderString(rawTemplate, data);
+	} catch (e) {
+		if (rawTemplate === defaultTemplate) throw e;
+		console.error(`The ${name} template failed to render:`, e);
+		errors?.add(`${name}: ${e instanceof Error ? e.message : String(e)}`);
+		return eta.renderString(defaultTemplate, data);
+	}
+}
+
+// Top of a new intermediate note. Keep the kobo-inboxer code block: it renders
+// the "Generate insights" button.
+export const defaultNoteHeaderTemplate = `---
+title: "<%= it.bookDetails.title %>"
+sync_date: <%= it.syncDate %>
+kobo_stats:
+  highlights_total: 0
+  insights_created: 0
+  updated_at: <%= it.syncDate %>
+---
+
+\`\`\`kobo-inboxer
+\`\`\`
+
+# <%= it.bookDetails.title %>
+`;
+
+/**
+ * Book details kept in the frontmatter of an intermediate note and refreshed
+ * on every sync, so notes can be queried by author, series or reading status.
+ * The VolumeID lets the plugin find the note again after it was renamed.
+ * Fields the database has no value for are left out; only the VolumeID is
+ * returned when the book itself was not found.
+ */
+export function bookFrontmatter(bookDetails: BookDetails): Record<string, string | number> {
+	const fields: Record<string, string | number> = {};
+	if (bookDetails.volumeId) fields[VOLUME_ID_KEY] = bookDetails.volumeId;
+	// Only details read from the database carry a read status
+	if (bookDetails.readStatus === undefined) return fields;
+
+	fields.author = bookDetails.author;
+	if (bookDetails.publisher) fields.publisher = bookDetails.publisher;
+	if (bookDetails.isbn) fields.isbn = bookDetails.isbn;
+	if (bookDetails.series) fields.series = bookDetails.series;
+	if (bookDetails.seriesNumber !== undefined && !Number.isNaN(bookDetails.seriesNumber)) {
+		fields.series_number = bookDetails.seriesNumber;
+	}
+	fields.read_status = ReadStatus[bookDetails.readStatus] ?? ReadStatus[ReadStatus.Unknown];
+	if (bookDetails.percentRead !== undefined) fields.percent_read = bookDetails.percentRead;
+	if (bookDetails.dateLastRead && !Number.isNaN(bookDetails.dateLastRead.getTime())) {
+		fields.last_read = bookDetails.dateLastRead.toISOString();
+	}
+	// Seconds, as stored by the device
+	if (bookDetails.timeSpentReading !== undefined) {
+		fields.time_spent_reading = bookDetails.timeSpentReading;
+	}
+	return fields;
+}
+
+// One highlight in an intermediate note. The id comment is required: syncing
+// relies on it to recognise blocks that are already in the note.
+export const defaultHighlightBlockTemplate = `---
+> [!quote]- <%= it.title %>
+<%= it.idMarker %>
+<%= it.metaMarker %>
+<%= it.quote %>
+> 
+
+<% if (it.annotation) { -%>
+${ANNOTATION_PREFIX} <%= it.annotation %>
+
+<% } -%>
+- [ ] memo:: `;
+
+export interface NoteHeaderData {
+	bookDetails: BookDetails;
+	syncDate: string;
+}
+
+export interface HighlightBlockData {
+	bookmark: Bookmark;
+	chapter: chapter;
+	bookDetails: BookDetails;
+	// Callout title: the custom title from the picker or a text summary
+	title: string;
+}
+
+export function renderNoteHeader(
+	rawTemplate: string,
+	data: NoteHeaderData,
+	errors?: Set<string>,
+): string {
+	const rendered = renderOrDefault(
+		rawTemplate,
+		defaultNoteHeaderTemplate,
+		{ ...data, ReadStatus },
+		"note header",
+		errors,
+	);
+	return rendered.trimEnd() + "\n";
+}
+
+/**
+ * Quote block appended to an existing insight note when another highlight
+ * is filed under the same title.
+ */
+export function renderAdditionalSource(data: InsightNoteData): string {
+	const lines: string[] = [];
+	for (const source of sourcesOf(data)) {
+		lines.push(
+			"",
+			"> [!quote] Additional source",
+			source.quoteLines,
+			">",
+			`> <cite>— *${data.bookTitle}*${source.chapter ? ", " + source.chapter : ""}</cite>`,
+		);
+	}
+	if (data.memo) lines.push("", data.memo);
+	lines.push("");
+	return lines.join("\n");
+}
+
+/**
+ * Render a highlight block. Falls back to the default template when a custom
+ * one fails or drops the id marker, since the block would be duplicated on
+ * every sync.
+ */
+export function renderHighlightBlock(
+	rawTemplate: string,
+	data: HighlightBlockData,
+	errors?: Set<string>,
+): string {
+	const idMarker = highlightIdMarker(data.bookmark.bookmarkId);
+	const meta = highlightMeta(data.bookmark, data.chapter);
+	const rendered = renderOrDefault(
+		rawTemplate,
+		defaultHighlightBlockTemplate,
+		{
+			...data,
+			meta,
+			metaMarker: highlightMetaMarker(meta),
+			annotation: annotationText(data.bookmark.note ?? ""),
+			quote: quoteLines(data.bookmark.text).join("\n"),
+			idMarker,
+			ReadStatus,
+		},
+		"highlight block",
+		errors,
+	);
+
+	if (!rendered.includes(idMarker)) {
+		if (rawTemplate === defaultHighlightBlockTemplate) {
+			throw new Error("The default highlight block template is broken.");
+		}
+		console.warn(
+			"The highlight block template must output <%= it.idMarker %>. Using the default template instead.",
+		);
+		errors?.add("highlight block: the template must output <%= it.idMarker %>");
+		return renderHighlightBlock(defaultHighlightBlockTemplate, data);
+	}
+
+	// Only strip surrounding newlines: "memo:: " keeps its trailing space
+	return rendered.replace(/^\n+|\n+$/g, "");
+}
+
+// Insight note created from a checked memo
+export const defaultInsightNoteTemplate = `---
+title: <%= it.yaml(it.title) %>
+book: "[[<%= it.bookTitle %>]]"
+<% if (it.bookmarkId) { -%>
+bookmark: "<%= it.bookmarkId %>"
+<% } -%>
+<% if (it.chapter) { -%>
+chapter: <%= it.yaml(it.chapter) %>
+<% } -%>
+<% if (it.highlightDate) { -%>
+highlighted: <%= it.highlightDate %>
+<% } -%>
+<% if (it.color) { -%>
+color: <%= it.color %>
+<% } -%>
+created: <%= it.created %>
+---
+
+<% it.sources.forEach(function (source, i) { -%>
+<% if (i > 0) { -%>
+
+<% } -%>
+> [!quote]<%= i === 0 ? " " + it.title : "" %>
+<%= source.quoteLines %>
+>
+> <cite>— *<%= it.bookTitle %>*<%= source.chapter ? ", " + source.chapter : "" %></cite>
+<% }) -%>
+<% if (it.memo) { -%>
+
+<%= it.memo %>
+<% } -%>
+`;
+
+// One quoted highlight of an insight note
+export interface InsightSourceData {
+	quote: string;
+	chapter?: string;
+	bookmarkId?: string;
+	// YYYY-MM-DD
+	highlightDate?: string;
+	color?: string;
+}
+
+export interface InsightNoteData {
+	// Memo text the insight was created from, shortened when long
+	title: string;
+	// Full memo text when it did not fit in the title
+	memo?: string;
+	// Fields below describe the first highlight; `sources` lists all of them
+	// when the insight combines several
+	quote: string;
+	bookTitle: string;
+	author?: string;
+	chapter?: string;
+	bookmarkId?: string;
+	// YYYY-MM-DD
+	highlightDate?: string;
+	// Position within the chapter, 0 to 1
+	chapterProgress?: number;
+	color?: string;
+	// ISO timestamp of the last annotation edit
+	annotationDate?: string;
+	// Link path (without .md) of the intermediate note holding the highlight
+	inboxNote: string;
+	// YYYY-MM-DD
+	created: string;
+	sources?: InsightSourceData[];
+}
+
+function sourcesOf(data: InsightNoteData) {
+	return (data.sources ?? [data]).map((s) => ({
+		...s,
+		chapter: s.chapter ?? "",
+		bookmarkId: s.bookmarkId ?? "",
+		highlightDate: s.highlightDate ?? "",
+		color: s.color ?? "",
+		quoteLines: quoteLines(s.quote).join("\n"),
+	}));
+}
+
+export function renderInsightNote(
+	rawTemplate: string,
+	data: InsightNoteData,
+	errors?: Set<string>,
+): string {
+	const vars = {
+		...data,
+		memo: data.memo ?? "",
+		author: data.author ?? "",
+		chapter: data.chapter ?? "",
+		bookmarkId: data.bookmarkId ?? "",
+		highlightDate: data.highlightDate ?? "",
+		chapterProgress: data.chapterProgress ?? "",
+		color: data.color ?? "",
+		annotationDate: data.annotationDate ?? "",
+		quoteLines: quoteLines(data.quote).join("\n"),
+		sources: sourcesOf(data),
+		// Double-quoted YAML scalar, safe for any memo text
+		yaml: (v: unknown) => JSON.stringify(String(v ?? "")),
+	};
+
+	const rendered = renderOrDefault(
+		rawTemplate,
+		defaultInsightNoteTemplate,
+		vars,
+		"insight note",
+		errors,
+	);
+	return rendered.trimEnd() + "\n";
+}